@@ -0,0 +1,280 @@
+import express, { Request, Response } from "express";
+import { Collection, ObjectId } from "mongodb";
+import { getMongoCollection } from "../tools/db";
+import bcrypt from "bcryptjs";
+import Joi from "joi";
+import { hasPermission } from "../handlers/auth";
+import { randomString } from "../tools/random";
+import {
+	adminRoles,
+	recordAdminAction,
+	toAdminResponse,
+} from "../tools/admins";
+
+const router = express.Router();
+
+router.post(
+	"/",
+	hasPermission("admins:manage"),
+	async (req: Request, res: Response) => {
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				name: Joi.string()
+					.trim()
+					.pattern(/^[_A-Za-z0-9-]+$/)
+					.max(32)
+					.required(),
+				roles: Joi.array()
+					.items(Joi.string().valid(...Object.keys(adminRoles)))
+					.unique()
+					.required()
+					.min(1),
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const admins: Collection = getMongoCollection("admins");
+
+		const existingAdmin = await admins.findOne(
+			{ name: req.body.name },
+			{ projection: { _id: 1 } }
+		);
+		if (existingAdmin) {
+			return res.status(400).json({
+				code: "D0002",
+				message: "An admin with that name already exists",
+			});
+		}
+
+		// Generate and hash the secret, the token is sent as `<id>.<secret>`
+		const secret = randomString(24);
+		const salt: string = await bcrypt.genSalt(10);
+		const hashedSecret: string = await bcrypt.hash(secret, salt);
+
+		const admin = {
+			_id: new ObjectId(),
+			name: req.body.name,
+			roles: req.body.roles,
+			token: hashedSecret,
+			createdAt: Date.now(),
+			createdBy: req.admin.name,
+		};
+		await admins.insertOne(admin);
+		await recordAdminAction(req, "admin.create", admin.name, {
+			roles: admin.roles,
+		});
+
+		res.status(201).json({
+			message:
+				"Admin created. Their token is attached, it will never be shown again",
+			...toAdminResponse(admin),
+			token: `${admin._id.toString()}.${secret}`,
+		});
+	}
+);
+
+router.get(
+	"/",
+	hasPermission("admins:manage"),
+	async (req: Request, res: Response) => {
+		const admins: Collection = getMongoCollection("admins");
+
+		const adminDocuments = await admins
+			.find({}, { projection: { token: 0 } })
+			.sort({ name: 1 })
+			.toArray();
+
+		res.status(200).json({
+			admins: adminDocuments.map(toAdminResponse),
+		});
+	}
+);
+
+router.get(
+	"/actions",
+	hasPermission("audit:read"),
+	async (req: Request, res: Response) => {
+		// Validate the query
+		try {
+			req.query = await Joi.object({
+				admin: Joi.string().trim().max(32),
+				action: Joi.string().trim().max(64),
+				limit: Joi.number().integer().min(1).max(100).default(25),
+				cursor: Joi.string().length(24).hex(),
+			}).validateAsync(req.query);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0002",
+				message: "Invalid URL query",
+			});
+		}
+
+		const adminActions: Collection = getMongoCollection("adminActions");
+
+		let query: any = {};
+		if (req.query.admin) {
+			query.admin = req.query.admin;
+		}
+		if (req.query.action) {
+			query.action = req.query.action;
+		}
+		if (req.query.cursor) {
+			query._id = { $lt: new ObjectId(req.query.cursor as string) };
+		}
+
+		// Get one extra to know if there is a next page
+		const limit = Number(req.query.limit);
+		const actionDocuments = await adminActions
+			.find(query)
+			.sort({ _id: -1 })
+			.limit(limit + 1)
+			.toArray();
+
+		let cursor: string | null = null;
+		if (actionDocuments.length > limit) {
+			actionDocuments.pop();
+			cursor = actionDocuments[actionDocuments.length - 1]._id.toString();
+		}
+
+		res.status(200).json({
+			actions: actionDocuments.map((action) => ({
+				id: action._id.toString(),
+				admin: action.admin,
+				action: action.action,
+				target: action.target,
+				details: action.details,
+				at: action.at,
+			})),
+			cursor,
+		});
+	}
+);
+
+router.put("/token", hasPermission(), async (req: Request, res: Response) => {
+	if (req.admin.isMasterKey) {
+		return res.status(400).json({
+			code: "D0003",
+			message: "The API_MASTER_KEY can only be changed in the environment",
+		});
+	}
+
+	// Generate the new secret, the id stays the same
+	const secret = randomString(24);
+	const salt: string = await bcrypt.genSalt(10);
+	const hashedSecret: string = await bcrypt.hash(secret, salt);
+
+	const admins: Collection = getMongoCollection("admins");
+
+	await admins.updateOne(
+		{ _id: new ObjectId(req.admin._id) },
+		{ $set: { token: hashedSecret } }
+	);
+	await recordAdminAction(req, "admin.rotateToken", req.admin.name);
+
+	res.status(200).json({
+		message: "Token changed and attached",
+		token: `${req.admin._id}.${secret}`,
+	});
+});
+
+router.put(
+	"/:id/roles",
+	hasPermission("admins:manage"),
+	async (req: Request, res: Response) => {
+		// Validate the id param
+		try {
+			req.params.id = await Joi.string()
+				.required()
+				.length(24)
+				.hex()
+				.validateAsync(req.params.id);
+		} catch (error) {
+			return res.status(400).json({
+				code: "D0000",
+				message: "Invalid admin id",
+			});
+		}
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				roles: Joi.array()
+					.items(Joi.string().valid(...Object.keys(adminRoles)))
+					.unique()
+					.required()
+					.min(1),
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const admins: Collection = getMongoCollection("admins");
+
+		const result = await admins.findOneAndUpdate(
+			{ _id: new ObjectId(req.params.id) },
+			{ $set: { roles: req.body.roles } },
+			{ returnDocument: "after", projection: { token: 0 } }
+		);
+		if (!result.value) {
+			return res.status(404).json({
+				code: "D0001",
+				message: "Admin not found",
+			});
+		}
+		await recordAdminAction(req, "admin.setRoles", result.value.name, {
+			roles: req.body.roles,
+		});
+
+		res.status(200).json({
+			message: "Roles have been updated",
+			...toAdminResponse(result.value),
+		});
+	}
+);
+
+router.delete(
+	"/:id",
+	hasPermission("admins:manage"),
+	async (req: Request, res: Response) => {
+		// Validate the id param
+		try {
+			req.params.id = await Joi.string()
+				.required()
+				.length(24)
+				.hex()
+				.validateAsync(req.params.id);
+		} catch (error) {
+			return res.status(400).json({
+				code: "D0000",
+				message: "Invalid admin id",
+			});
+		}
+
+		const admins: Collection = getMongoCollection("admins");
+
+		const result = await admins.findOneAndDelete(
+			{ _id: new ObjectId(req.params.id) },
+			{ projection: { name: 1 } }
+		);
+		if (!result.value) {
+			return res.status(404).json({
+				code: "D0001",
+				message: "Admin not found",
+			});
+		}
+		await recordAdminAction(req, "admin.delete", result.value.name);
+
+		res.status(200).json({
+			message: "Admin has been removed, their token no longer works",
+		});
+	}
+);
+
+export { router };
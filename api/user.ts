@@ -8,6 +8,30 @@ import {
 import Joi from "joi";
 import bcrypt from "bcryptjs";
 import { Server } from "socket.io";
+import {
+	cacheTransaction,
+	recordTransaction,
+	toWalletTransaction,
+	TransactionDocument,
+} from "../tools/transactions";
+import {
+	profileSchema,
+	profileUpdate,
+	toProfileResponse,
+} from "../tools/profiles";
+import {
+	generateRecoveryCodes,
+	generateTotpSecret,
+	matchTotp,
+	totpUrl,
+	verifyTwoFactor,
+} from "../tools/twoFactor";
+import {
+	listSessions,
+	revokeSessions,
+	revokeSession,
+	untrackSession,
+} from "../tools/sessions";
 
 const router = express.Router();
 
@@ -66,6 +90,7 @@ router.put("/password", async (req: Request, res: Response) => {
 		req.body = await Joi.object({
 			oldPassword: Joi.string().required().max(32),
 			newPassword: Joi.string().required().min(10).max(32),
+			code: Joi.string().trim().max(16),
 		}).validateAsync(req.body);
 	} catch (error) {
 		return res.status(400).json({
@@ -80,7 +105,7 @@ router.put("/password", async (req: Request, res: Response) => {
 		{
 			_id: new ObjectId(req.session.walletId),
 		},
-		{ projection: { "user.password": 1 } }
+		{ projection: { "user.password": 1, "user.twoFactor": 1 } }
 	);
 
 	if (!userWallet) {
@@ -102,6 +127,28 @@ router.put("/password", async (req: Request, res: Response) => {
 		});
 	}
 
+	// Users with two-factor enabled need a code too
+	if (userWallet.user.twoFactor?.enabled) {
+		if (!req.body.code) {
+			return res.status(400).json({
+				code: "U0008",
+				message: "Two-factor code required",
+			});
+		}
+		if (
+			!(await verifyTwoFactor(
+				userWallet._id,
+				userWallet.user.twoFactor,
+				req.body.code
+			))
+		) {
+			return res.status(400).json({
+				code: "U0009",
+				message: "Invalid two-factor code",
+			});
+		}
+	}
+
 	// Hashing the password
 	const salt: string = await bcrypt.genSalt(10);
 	const hashedPassword: string = await bcrypt.hash(req.body.newPassword, salt);
@@ -111,12 +158,20 @@ router.put("/password", async (req: Request, res: Response) => {
 		{ $set: { "user.password": hashedPassword } }
 	);
 
+	// Anyone else logged in with the old password is logged out
+	const revokedSessions = await revokeSessions(
+		req.session.walletId.toString(),
+		req.session.sessionId
+	);
+
 	return res.status(201).json({
 		message: "Password updated",
+		revokedSessions,
 	});
 });
 
 router.delete("/session", async (req: Request, res: Response) => {
+	await untrackSession(req);
 	await new Promise<void>((resolve, reject) => {
 		req.session.destroy((err: Error) => {
 			if (err) reject(err);
@@ -130,11 +185,82 @@ router.delete("/session", async (req: Request, res: Response) => {
 	});
 });
 
+router.get("/sessions", async (req: Request, res: Response) => {
+	const sessions = await listSessions(req.session.walletId.toString());
+
+	res.status(200).json({
+		sessions: sessions.map((session) => ({
+			...session,
+			current: session.id === req.session.sessionId,
+		})),
+	});
+});
+
+router.delete("/sessions", async (req: Request, res: Response) => {
+	const revokedSessions = await revokeSessions(
+		req.session.walletId.toString(),
+		req.session.sessionId
+	);
+
+	res.status(200).json({
+		message: "All other sessions have been logged out",
+		revokedSessions,
+	});
+});
+
+router.delete("/sessions/:id", async (req: Request, res: Response) => {
+	// Validate the id param
+	try {
+		req.params.id = await Joi.string()
+			.required()
+			.length(24)
+			.alphanum()
+			.validateAsync(req.params.id);
+	} catch (error) {
+		return res.status(400).json({
+			code: "U0012",
+			message: "Invalid session id",
+		});
+	}
+
+	// Revoking the current session is just logging out
+	if (req.params.id === req.session.sessionId) {
+		await untrackSession(req);
+		await new Promise<void>((resolve, reject) => {
+			req.session.destroy((err: Error) => {
+				if (err) reject(err);
+			});
+			res.clearCookie("sid");
+			resolve();
+		});
+
+		return res.status(200).json({
+			message: "Session revoked, this was the current session",
+		});
+	}
+
+	const found = await revokeSession(
+		req.session.walletId.toString(),
+		req.params.id
+	);
+	if (!found) {
+		return res.status(404).json({
+			code: "U0013",
+			message: "Session not found",
+		});
+	}
+
+	res.status(200).json({
+		message: "Session revoked",
+	});
+});
+
 router.delete("/", async (req: Request, res: Response) => {
 	// Validate request body
 	try {
 		req.body = await Joi.object({
 			password: Joi.string().required().max(32),
+			code: Joi.string().trim().max(16),
 		}).validateAsync(req.body);
 	} catch (error) {
 		return res.status(400).json({
@@ -146,16 +272,53 @@ router.delete("/", async (req: Request, res: Response) => {
 	const wallets: Collection = getMongoCollection("wallets");
 
 	// Check if they own any wallets currently
-	const ownedWallets = await wallets.findOne(
+	const ownedWallets = await wallets
+		.find(
+			{
+				ownerId: new ObjectId(req.session.walletId),
+			},
+			{ projection: { address: 1 } }
+		)
+		.toArray();
+	if (ownedWallets.length) {
+		return res.status(400).json({
+			code: "U0004",
+			message: "Still owner of wallets",
+			wallets: ownedWallets.map((wallet) => wallet.address),
+		});
+	}
+
+	// Or co-own any, they'd be left waiting on an approver that's gone
+	const coOwnedWallets = await wallets
+		.find(
+			{ "multisig.ownerIds": new ObjectId(req.session.walletId) },
+			{ projection: { address: 1 } }
+		)
+		.toArray();
+	if (coOwnedWallets.length) {
+		return res.status(400).json({
+			code: "U0015",
+			message: "Still co-owner of multi-signature wallets",
+			wallets: coOwnedWallets.map((wallet) => wallet.address),
+		});
+	}
+
+	// Held escrows would lose their assets with the account
+	const escrows: Collection = getMongoCollection("escrows");
+	const heldEscrow = await escrows.findOne(
 		{
-			ownerId: new ObjectId(req.session.walletId),
+			status: "held",
+			$or: [
+				{ senderId: new ObjectId(req.session.walletId) },
+				{ recipientId: new ObjectId(req.session.walletId) },
+			],
 		},
 		{ projection: { _id: 1 } }
 	);
-	if (ownedWallets) {
+	if (heldEscrow) {
 		return res.status(400).json({
-			code: "U0004",
-			message: "Still owner of wallets",
+			code: "U0007",
+			message: "Still party to held escrows",
 		});
 	}
 
@@ -182,8 +345,31 @@ router.delete("/", async (req: Request, res: Response) => {
 		});
 	}
 
+	// Users with two-factor enabled need a code too
+	if (userWallet.user.twoFactor?.enabled) {
+		if (!req.body.code) {
+			return res.status(400).json({
+				code: "U0008",
+				message: "Two-factor code required",
+			});
+		}
+		if (
+			!(await verifyTwoFactor(
+				userWallet._id,
+				userWallet.user.twoFactor,
+				req.body.code
+			))
+		) {
+			return res.status(400).json({
+				code: "U0009",
+				message: "Invalid two-factor code",
+			});
+		}
+	}
+
 	let recipientFound = true;
 	let treasuryFound = true;
+	let ledgerTransaction: TransactionDocument | undefined;
 
 	// Use transaction to delete their account and
 	// transfer their funds to the stelotreasury
@@ -212,18 +398,32 @@ router.delete("/", async (req: Request, res: Response) => {
 			queryUpdate.$inc[`assets.${key}`] = recipientResult.value.assets[key];
 		}
 
-		const treasuryResult = await wallets.updateOne(
+		const treasuryResult = await wallets.findOneAndUpdate(
 			{ address: "stelotreasury" },
 			queryUpdate,
 			{
 				session,
+				projection: { _id: 1 },
 			}
 		);
 
-		if (!treasuryResult.matchedCount) {
+		if (!treasuryResult.value) {
 			treasuryFound = false;
 			return await session.abortTransaction();
 		}
+
+		// Record the closing balance in the ledger
+		ledgerTransaction = await recordTransaction(
+			"transfer",
+			{
+				walletId: new ObjectId(req.session.walletId),
+				name: req.session.address,
+			},
+			{ walletId: treasuryResult.value._id, name: "#stelotreasury" },
+			recipientResult.value.assets,
+			session,
+			"Account deleted, these assets returned"
+		);
 	});
 
 	await session.endSession();
@@ -240,11 +440,19 @@ router.delete("/", async (req: Request, res: Response) => {
 		});
 	}
 
-	// Delete the txs from cache
+	// Delete the txs from cache, and cache it for the treasury
 	const redis = getRedisConnection();
 	await redis.del(`wallets:${req.session.walletId}.transactions`);
+	const treasuryId = (
+		ledgerTransaction?.recipient.walletId as ObjectId
+	).toString();
+	await cacheTransaction(
+		treasuryId,
+		toWalletTransaction(ledgerTransaction as TransactionDocument, treasuryId)
+	);
 
-	// Delete the session
+	// Delete every session, including this one
+	await revokeSessions(req.session.walletId.toString());
 	await new Promise<void>((resolve, reject) => {
 		req.session.destroy((err: Error) => {
 			if (err) reject(err);
@@ -258,6 +466,345 @@ router.delete("/", async (req: Request, res: Response) => {
 	});
 });
 
+router.put("/profile", async (req: Request, res: Response) => {
+	// Validate request body
+	try {
+		req.body = await profileSchema.validateAsync(req.body);
+	} catch (error) {
+		return res.status(400).json({
+			code: "G0000",
+			message: "Invalid JSON body",
+		});
+	}
+
+	const wallets: Collection = getMongoCollection("wallets");
+
+	const result = await wallets.findOneAndUpdate(
+		{ _id: new ObjectId(req.session.walletId) },
+		profileUpdate(req.body),
+		{
+			returnDocument: "after",
+			projection: { "user.username": 1, profile: 1, verified: 1 },
+		}
+	);
+	if (!result.value) {
+		return res.status(404).json({
+			code: "U0001",
+			message: "User couldn't be found",
+		});
+	}
+
+	res.status(200).json({
+		message: "Profile has been updated",
+		...toProfileResponse(result.value),
+	});
+});
+
+router.get("/wallets", async (req: Request, res: Response) => {
+	const wallets: Collection = getMongoCollection("wallets");
+	const userId = new ObjectId(req.session.walletId);
+
+	// Wallets they own, and multi-signature ones they co-own
+	const userWallets = await wallets
+		.find(
+			{ $or: [{ ownerId: userId }, { "multisig.ownerIds": userId }] },
+			{
+				projection: {
+					address: 1,
+					ownerId: 1,
+					assets: 1,
+					heldAssets: 1,
+					webhook: 1,
+					webhookMode: 1,
+					keyCreatedAt: 1,
+					lastActivityAt: 1,
+					multisig: 1,
+					"keys.lastUsedAt": 1,
+				},
+			}
+		)
+		.sort({ address: 1 })
+		.toArray();
+
+	res.status(200).json({
+		wallets: userWallets.map((wallet) => {
+			// Last activity is the latest transaction, or use of a named key
+			const lastActivityAt = Math.max(
+				wallet.lastActivityAt ?? 0,
+				...(wallet.keys ?? []).map((key: any) => key.lastUsedAt ?? 0)
+			);
+
+			return {
+				address: wallet.address,
+				role: userId.equals(wallet.ownerId) ? "owner" : "coOwner",
+				multisig: wallet.multisig
+					? {
+							owners: wallet.multisig.ownerIds.length,
+							threshold: wallet.multisig.threshold,
+					  }
+					: null,
+				assets: wallet.assets,
+				heldAssets: wallet.heldAssets ?? {},
+				webhook: wallet.webhook ?? null,
+				webhookMode: wallet.webhook
+					? wallet.webhookMode ?? "blocking"
+					: null,
+				// Wallets from before this was stored still have their first key
+				keyCreatedAt:
+					wallet.keyCreatedAt ??
+					(wallet._id as ObjectId).getTimestamp().getTime(),
+				namedKeys: (wallet.keys ?? []).length,
+				lastActivityAt: lastActivityAt || null,
+			};
+		}),
+	});
+});
+
+router.get("/2fa", async (req: Request, res: Response) => {
+	const wallets: Collection = getMongoCollection("wallets");
+
+	const userWallet = await wallets.findOne(
+		{ _id: new ObjectId(req.session.walletId) },
+		{ projection: { "user.twoFactor": 1 } }
+	);
+	if (!userWallet) {
+		return res.status(404).json({
+			code: "U0001",
+			message: "User not found",
+		});
+	}
+
+	const twoFactor = userWallet.user.twoFactor;
+	if (!twoFactor?.enabled) {
+		return res.status(200).json({ enabled: false });
+	}
+
+	res.status(200).json({
+		enabled: true,
+		enabledAt: twoFactor.enabledAt,
+		recoveryCodesLeft: twoFactor.recoveryCodes.length,
+	});
+});
+
+router.post("/2fa", async (req: Request, res: Response) => {
+	const wallets: Collection = getMongoCollection("wallets");
+
+	// Starting over replaces any enrollment that wasn't verified
+	const secret = generateTotpSecret();
+	const result = await wallets.updateOne(
+		{
+			_id: new ObjectId(req.session.walletId),
+			"user.twoFactor.enabled": { $ne: true },
+		},
+		{ $set: { "user.twoFactor": { secret, enabled: false } } }
+	);
+	if (!result.matchedCount) {
+		return res.status(400).json({
+			code: "U0010",
+			message: "Two-factor authentication is already enabled",
+		});
+	}
+
+	res.status(201).json({
+		message:
+			"Add the secret to an authenticator app, then verify a code to enable it",
+		secret,
+		url: totpUrl(req.session.address as string, secret),
+	});
+});
+
+router.post("/2fa/verify", async (req: Request, res: Response) => {
+	// Validate request body
+	try {
+		req.body = await Joi.object({
+			code: Joi.string().trim().required().max(16),
+		}).validateAsync(req.body);
+	} catch (error) {
+		return res.status(400).json({
+			code: "G0000",
+			message: "Invalid JSON body",
+		});
+	}
+
+	const wallets: Collection = getMongoCollection("wallets");
+
+	const userWallet = await wallets.findOne(
+		{ _id: new ObjectId(req.session.walletId) },
+		{ projection: { "user.twoFactor": 1 } }
+	);
+	const twoFactor = userWallet?.user.twoFactor;
+	if (!twoFactor) {
+		return res.status(400).json({
+			code: "U0011",
+			message: "Two-factor authentication hasn't been enrolled",
+		});
+	} else if (twoFactor.enabled) {
+		return res.status(400).json({
+			code: "U0010",
+			message: "Two-factor authentication is already enabled",
+		});
+	}
+
+	const counter = matchTotp(twoFactor.secret, req.body.code);
+	if (counter === null) {
+		return res.status(400).json({
+			code: "U0009",
+			message: "Invalid two-factor code",
+		});
+	}
+
+	// Only enable the secret that was verified, incase it was re-enrolled
+	const recoveryCodes = generateRecoveryCodes();
+	const result = await wallets.updateOne(
+		{
+			_id: new ObjectId(req.session.walletId),
+			"user.twoFactor.secret": twoFactor.secret,
+			"user.twoFactor.enabled": false,
+		},
+		{
+			$set: {
+				"user.twoFactor.enabled": true,
+				"user.twoFactor.enabledAt": Date.now(),
+				"user.twoFactor.lastCounter": counter,
+				"user.twoFactor.recoveryCodes": recoveryCodes.hashes,
+			},
+		}
+	);
+	if (!result.modifiedCount) {
+		return res.status(400).json({
+			code: "U0011",
+			message: "Two-factor authentication hasn't been enrolled",
+		});
+	}
+
+	res.status(200).json({
+		message:
+			"Two-factor authentication enabled. Your recovery codes are attached, they will never be shown again",
+		recoveryCodes: recoveryCodes.codes,
+	});
+});
+
+router.post("/2fa/recoverycodes", async (req: Request, res: Response) => {
+	// Validate request body
+	try {
+		req.body = await Joi.object({
+			code: Joi.string().trim().required().max(16),
+		}).validateAsync(req.body);
+	} catch (error) {
+		return res.status(400).json({
+			code: "G0000",
+			message: "Invalid JSON body",
+		});
+	}
+
+	const wallets: Collection = getMongoCollection("wallets");
+
+	const userWallet = await wallets.findOne(
+		{ _id: new ObjectId(req.session.walletId) },
+		{ projection: { "user.twoFactor": 1 } }
+	);
+	if (!userWallet?.user.twoFactor?.enabled) {
+		return res.status(400).json({
+			code: "U0011",
+			message: "Two-factor authentication isn't enabled",
+		});
+	}
+
+	if (
+		!(await verifyTwoFactor(
+			userWallet._id,
+			userWallet.user.twoFactor,
+			req.body.code
+		))
+	) {
+		return res.status(400).json({
+			code: "U0009",
+			message: "Invalid two-factor code",
+		});
+	}
+
+	// Replaces every old code
+	const recoveryCodes = generateRecoveryCodes();
+	await wallets.updateOne(
+		{ _id: userWallet._id },
+		{ $set: { "user.twoFactor.recoveryCodes": recoveryCodes.hashes } }
+	);
+
+	res.status(201).json({
+		message:
+			"New recovery codes are attached, they will never be shown again",
+		recoveryCodes: recoveryCodes.codes,
+	});
+});
+
+router.delete("/2fa", async (req: Request, res: Response) => {
+	// Validate request body
+	try {
+		req.body = await Joi.object({
+			password: Joi.string().required().max(32),
+			code: Joi.string().trim().required().max(16),
+		}).validateAsync(req.body);
+	} catch (error) {
+		return res.status(400).json({
+			code: "G0000",
+			message: "Invalid JSON body",
+		});
+	}
+
+	const wallets: Collection = getMongoCollection("wallets");
+
+	const userWallet = await wallets.findOne(
+		{ _id: new ObjectId(req.session.walletId) },
+		{ projection: { "user.password": 1, "user.twoFactor": 1 } }
+	);
+	if (!userWallet) {
+		return res.status(404).json({
+			code: "U0001",
+			message: "User not found",
+		});
+	}
+	if (!userWallet.user.twoFactor?.enabled) {
+		return res.status(400).json({
+			code: "U0011",
+			message: "Two-factor authentication isn't enabled",
+		});
+	}
+
+	// Checking if password is valid
+	const validPassword: boolean = await bcrypt.compare(
+		req.body.password,
+		userWallet.user.password
+	);
+	if (!validPassword) {
+		return res.status(400).json({
+			code: "U0003",
+			message: "Invalid password",
+		});
+	}
+
+	if (
+		!(await verifyTwoFactor(
+			userWallet._id,
+			userWallet.user.twoFactor,
+			req.body.code
+		))
+	) {
+		return res.status(400).json({
+			code: "U0009",
+			message: "Invalid two-factor code",
+		});
+	}
+
+	await wallets.updateOne(
+		{ _id: userWallet._id },
+		{ $unset: { "user.twoFactor": "" } }
+	);
+
+	res.status(200).json({
+		message: "Two-factor authentication disabled",
+	});
+});
+
 router.post("/warehouseaccount", async (req: Request, res: Response) => {
 	// TODO: You could just create ObjectId, try to insert into account
 	// if it doesn't already have one. Then if not found throw error
@@ -1,5 +1,5 @@
 import express, { Request, Response } from "express";
-import { Collection } from "mongodb";
+import { Collection, ObjectId } from "mongodb";
 import {
 	getMongoCollection,
 	getMongoSession,
@@ -7,7 +7,22 @@ import {
 } from "../tools/db";
 import bcrypt from "bcryptjs";
 import Joi from "joi";
-import { isGuest, masterKey } from "../handlers/auth";
+import { hasPermission, isGuest } from "../handlers/auth";
+import { adminCan, recordAdminAction } from "../tools/admins";
+import {
+	cacheTransaction,
+	recordTransaction,
+	toWalletTransaction,
+	TransactionDocument,
+} from "../tools/transactions";
+import { toProfileResponse } from "../tools/profiles";
+import { verifyTwoFactor } from "../tools/twoFactor";
+import { revokeSessions, trackSession } from "../tools/sessions";
+import {
+	consumePasswordReset,
+	issuePasswordReset,
+} from "../tools/passwordResets";
+import { clearFailedLogins, reserveLoginAttempt } from "../tools/loginAttempts";
 
 const router = express.Router();
 
@@ -70,150 +85,464 @@ router.post("/", async (req: Request, res: Response) => {
 	});
 });
 
-router.put("/:username", masterKey(), async (req: Request, res: Response) => {
-	const wallets: Collection = getMongoCollection("wallets");
-	const redis = getRedisConnection();
+router.get(
+	"/registrations",
+	hasPermission("registrations:read"),
+	async (req: Request, res: Response) => {
+		const redis = getRedisConnection();
+		const now = Date.now();
 
-	// See if the user has registered
-	const hashedPassword = await redis.get(
-		`users:registration:${req.params.username}`
-	);
-	if (!hashedPassword) {
-		return res.status(404).json({
-			code: "U0001",
-			message: "User not found",
+		// Registrations are cached for 3 days,
+		// so when it was made follows from its TTL
+		let registrations: any[] = [];
+		for await (const key of redis.scanIterator({
+			MATCH: "users:registration:*",
+			COUNT: 100,
+		})) {
+			const ttl = await redis.ttl(key);
+			if (ttl < 0) {
+				continue;
+			}
+			registrations.push({
+				username: key.substring("users:registration:".length),
+				createdAt: now - (60 * 60 * 24 * 3 - ttl) * 1000,
+				expiresIn: ttl,
+			});
+		}
+		registrations.sort((a, b) => a.createdAt - b.createdAt);
+
+		res.status(200).json({
+			registrations,
 		});
 	}
+);
+
+router.get(
+	"/registrations/rejections",
+	hasPermission("registrations:read"),
+	async (req: Request, res: Response) => {
+		// Validate the query
+		try {
+			req.query = await Joi.object({
+				limit: Joi.number().integer().min(1).max(100).default(25),
+				cursor: Joi.string().length(24).hex(),
+			}).validateAsync(req.query);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0002",
+				message: "Invalid URL query",
+			});
+		}
+
+		const rejections: Collection = getMongoCollection(
+			"registrationRejections"
+		);
 
-	// If the distribution is on, give free stelo
-	// else just create account
-	if (
-		typeof req.query.distribution === "string" &&
-		(req.query.distribution as string) === "true"
-	) {
-		const session = getMongoSession();
-
-		let hasFunds = true;
-		let distributionFound = true;
-		let alreadyTaken = false;
-
-		await session.withTransaction(async () => {
-			let distribution = await wallets.findOne(
-				{ address: "genesisdistribution" },
-				{ session, projection: { assets: 1 } }
-			);
-
-			// Was distribution wallet found? Or is it empty?
-			if (!distribution) {
-				distributionFound = false;
-				return await session.abortTransaction();
-			} else if (distribution.assets.stelo <= 500) {
-				hasFunds = false;
-				return await session.abortTransaction();
+		let query: any = {};
+		if (req.query.cursor) {
+			query._id = { $lt: new ObjectId(req.query.cursor as string) };
+		}
+
+		// Get one extra to know if there is a next page
+		const limit = Number(req.query.limit);
+		const rejectionDocuments = await rejections
+			.find(query)
+			.sort({ _id: -1 })
+			.limit(limit + 1)
+			.toArray();
+
+		let cursor: string | null = null;
+		if (rejectionDocuments.length > limit) {
+			rejectionDocuments.pop();
+			cursor =
+				rejectionDocuments[rejectionDocuments.length - 1]._id.toString();
+		}
+
+		res.status(200).json({
+			rejections: rejectionDocuments.map((rejection) => ({
+				id: rejection._id.toString(),
+				username: rejection.username,
+				notes: rejection.notes,
+				registeredAt: rejection.registeredAt,
+				rejectedAt: rejection.rejectedAt,
+				rejectedBy: rejection.rejectedBy,
+			})),
+			cursor,
+		});
+	}
+);
+
+router.delete(
+	"/registrations/:username",
+	hasPermission("registrations:reject"),
+	async (req: Request, res: Response) => {
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				notes: Joi.string().trim().max(500),
+			}).validateAsync(req.body ?? {});
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const redis = getRedisConnection();
+		const key = `users:registration:${req.params.username}`;
+
+		// Get the TTL before removing it, to know when it was made
+		const [ttl, deleted] = await redis.multi().ttl(key).del(key).exec();
+		if (!deleted) {
+			return res.status(404).json({
+				code: "U0001",
+				message: "User not found",
+			});
+		}
+
+		// Keep a record of why it was rejected
+		let rejection: any = {
+			username: req.params.username,
+			registeredAt: Date.now() - (60 * 60 * 24 * 3 - Number(ttl)) * 1000,
+			rejectedAt: Date.now(),
+			rejectedBy: req.admin.name,
+		};
+		if (req.body.notes) {
+			rejection.notes = req.body.notes;
+		}
+		const rejections: Collection = getMongoCollection(
+			"registrationRejections"
+		);
+		await rejections.insertOne(rejection);
+		await recordAdminAction(
+			req,
+			"registration.reject",
+			req.params.username,
+			req.body.notes ? { notes: req.body.notes } : undefined
+		);
+
+		res.status(200).json({
+			message: `${req.params.username}'s registration rejected`,
+			notes: req.body.notes,
+		});
+	}
+);
+
+router.put(
+	"/:username",
+	hasPermission("registrations:approve"),
+	async (req: Request, res: Response) => {
+		const wallets: Collection = getMongoCollection("wallets");
+		const redis = getRedisConnection();
+
+		// See if the user has registered
+		const hashedPassword = await redis.get(
+			`users:registration:${req.params.username}`
+		);
+		if (!hashedPassword) {
+			return res.status(404).json({
+				code: "U0001",
+				message: "User not found",
+			});
+		}
+
+		// If the distribution is on, give free stelo
+		// else just create account
+		let distributed: number | undefined;
+		if (
+			typeof req.query.distribution === "string" &&
+			(req.query.distribution as string) === "true"
+		) {
+			if (!adminCan(req.admin, "distributions:send")) {
+				return res.status(403).json({
+					code: "A0015",
+					message: "Admin doesn't have the distributions:send permission",
+				});
 			}
 
-			// Calculate their free stelo
-			const freeStelo = Math.floor(
-				250000000 + distribution.assets.stelo * 0.0015
-			);
+			const session = getMongoSession();
 
-			// Insert user into db and give free stelo!!
-			// also catch error if username is taken
-			let user;
-			try {
-				user = await wallets.insertOne(
-					{
-						user: {
-							username: req.params.username,
-							password: hashedPassword,
-						},
-						assets: {
-							stelo: freeStelo,
+			let hasFunds = true;
+			let distributionFound = true;
+			let alreadyTaken = false;
+			let ledgerTransaction: TransactionDocument | undefined;
+
+			await session.withTransaction(async () => {
+				let distribution = await wallets.findOne(
+					{ address: "genesisdistribution" },
+					{ session, projection: { assets: 1 } }
+				);
+
+				// Was distribution wallet found? Or is it empty?
+				if (!distribution) {
+					distributionFound = false;
+					return await session.abortTransaction();
+				} else if (distribution.assets.stelo <= 500) {
+					hasFunds = false;
+					return await session.abortTransaction();
+				}
+
+				// Calculate their free stelo
+				const freeStelo = Math.floor(
+					250000000 + distribution.assets.stelo * 0.0015
+				);
+
+				// Insert user into db and give free stelo!!
+				// also catch error if username is taken
+				let user;
+				try {
+					user = await wallets.insertOne(
+						{
+							user: {
+								username: req.params.username,
+								password: hashedPassword,
+							},
+							assets: {
+								stelo: freeStelo,
+							},
 						},
-					},
+						{ session }
+					);
+				} catch (error) {
+					alreadyTaken = true;
+					return await session.abortTransaction();
+				}
+
+				distributed = freeStelo;
+
+				// Take stelo out of distribution wallet
+				await wallets.updateOne(
+					{ address: "genesisdistribution" },
+					{ $inc: { "assets.stelo": -freeStelo } },
 					{ session }
 				);
+
+				// Record the distribution in the ledger
+				ledgerTransaction = await recordTransaction(
+					"transfer",
+					{ walletId: distribution._id, name: "#genesisdistribution" },
+					{ walletId: user.insertedId, name: req.params.username },
+					{ stelo: freeStelo },
+					session
+				);
+			});
+
+			await session.endSession();
+
+			if (!distributionFound) {
+				return res.status(500).json({
+					code: "S0000",
+					message: "genesisdistribution not found!",
+				});
+			} else if (!hasFunds) {
+				return res.status(500).json({
+					code: "S0001",
+					message: "genesisdistribution funds critically low",
+				});
+			} else if (alreadyTaken) {
+				return res.status(400).json({
+					code: "U0000",
+					message: "User already registered",
+				});
+			}
+
+			// Cache transaction for user and distribution
+			const transaction = ledgerTransaction as TransactionDocument;
+			for (const party of [transaction.recipient, transaction.sender]) {
+				const walletId = (party.walletId as ObjectId).toString();
+				await cacheTransaction(
+					walletId,
+					toWalletTransaction(transaction, walletId)
+				);
+			}
+		} else {
+			// catch error if username somehow has been taken
+			try {
+				await wallets.insertOne({
+					user: {
+						username: req.params.username,
+						password: hashedPassword,
+					},
+					assets: {},
+				});
 			} catch (error) {
-				alreadyTaken = true;
-				return await session.abortTransaction();
+				return res.status(400).json({
+					code: "U0000",
+					message: "User already registered",
+				});
 			}
+		}
+
+		// Remove cached account
+		await redis.del(`users:registration:${req.params.username}`);
+
+		await recordAdminAction(
+			req,
+			"registration.approve",
+			req.params.username,
+			distributed ? { distribution: { stelo: distributed } } : undefined
+		);
+
+		// Inform requester if distribution used
+		let message: string;
+		if (
+			typeof req.query.distribution === "string" &&
+			(req.query.distribution as string) === "true"
+		) {
+			message = `${req.params.username} confirmed, using distribution`;
+		} else {
+			message = `${req.params.username} confirmed`;
+		}
+		res.status(201).json({
+			message,
+		});
+	}
+);
+
+router.get("/:username/profile", async (req: Request, res: Response) => {
+	const wallets: Collection = getMongoCollection("wallets");
 
-			// Take stelo out of distribution wallet
-			await wallets.updateOne(
-				{ address: "genesisdistribution" },
-				{ $inc: { "assets.stelo": -freeStelo } },
-				{ session }
-			);
-
-			// Cache transaction for user
-			const transactionDocument = {
-				type: "receive",
-				interactant: "#genesisdistribution",
-				assets: { stelo: freeStelo },
-			};
-			await redis
-				.multi()
-				.lPush(
-					`wallets:${user.insertedId}.transactions`,
-					JSON.stringify(transactionDocument)
-				)
-				.expire(`wallets:${user.insertedId}.transactions`, 60 * 60 * 24 * 5)
-				.exec();
+	const wallet = await wallets.findOne(
+		{ "user.username": req.params.username },
+		{ projection: { "user.username": 1, profile: 1, verified: 1 } }
+	);
+	if (!wallet) {
+		return res.status(404).json({
+			code: "U0001",
+			message: "User not found",
 		});
+	}
 
-		await session.endSession();
+	res.status(200).json(toProfileResponse(wallet));
+});
 
-		if (!distributionFound) {
-			return res.status(500).json({
-				code: "S0000",
-				message: "genesisdistribution not found!",
+router.put(
+	"/:username/verified",
+	hasPermission("profiles:verify"),
+	async (req: Request, res: Response) => {
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				verified: Joi.boolean().required(),
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
 			});
-		} else if (!hasFunds) {
-			return res.status(500).json({
-				code: "S0001",
-				message: "genesisdistribution funds critically low",
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		const updateResult = await wallets.updateOne(
+			{ "user.username": req.params.username },
+			req.body.verified
+				? { $set: { verified: true } }
+				: { $unset: { verified: "" } }
+		);
+		if (!updateResult.matchedCount) {
+			return res.status(404).json({
+				code: "U0001",
+				message: "User not found",
 			});
-		} else if (alreadyTaken) {
-			return res.status(400).json({
-				code: "U0000",
-				message: "User already registered",
+		}
+
+		await recordAdminAction(
+			req,
+			req.body.verified ? "profile.verify" : "profile.unverify",
+			req.params.username
+		);
+
+		res.status(200).json({
+			message: "Verified flag has been updated",
+			verified: req.body.verified,
+		});
+	}
+);
+
+router.post(
+	"/:username/passwordreset",
+	hasPermission("passwords:reset"),
+	async (req: Request, res: Response) => {
+		const wallets: Collection = getMongoCollection("wallets");
+
+		const user = await wallets.findOne(
+			{ "user.username": req.params.username },
+			{ projection: { _id: 1 } }
+		);
+		if (!user) {
+			return res.status(404).json({
+				code: "U0001",
+				message: "User not found",
 			});
 		}
-	} else {
-		// catch error if username somehow has been taken
+
+		const reset = await issuePasswordReset(user._id.toString());
+		await recordAdminAction(req, "password.reset", req.params.username);
+
+		res.status(201).json({
+			message:
+				"Reset token created, give it to the user. It can be used once and will never be shown again",
+			...reset,
+		});
+	}
+);
+
+router.put(
+	"/:username/password",
+	isGuest(),
+	async (req: Request, res: Response) => {
+		// Validate request body
 		try {
-			await wallets.insertOne({
-				user: {
-					username: req.params.username,
-					password: hashedPassword,
-				},
-				assets: {},
-			});
+			req.body = await Joi.object({
+				token: Joi.string().trim().length(32).alphanum().required(),
+				newPassword: Joi.string().required().min(10).max(32),
+			}).validateAsync(req.body);
 		} catch (error) {
 			return res.status(400).json({
-				code: "U0000",
-				message: "User already registered",
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		// Unknown users get the same error, so it doesn't give them away
+		const user = await wallets.findOne(
+			{ "user.username": req.params.username },
+			{ projection: { _id: 1 } }
+		);
+		if (
+			!user ||
+			!(await consumePasswordReset(user._id.toString(), req.body.token))
+		) {
+			return res.status(400).json({
+				code: "U0014",
+				message: "Invalid or expired reset token",
 			});
 		}
-	}
 
-	// Remove cached account
-	await redis.del(`users:registration:${req.params.username}`);
-
-	// Inform requester if distribution used
-	let message: string;
-	if (
-		typeof req.query.distribution === "string" &&
-		(req.query.distribution as string) === "true"
-	) {
-		message = `${req.params.username} confirmed, using distribution`;
-	} else {
-		message = `${req.params.username} confirmed`;
+		// Hashing the password
+		const salt: string = await bcrypt.genSalt(10);
+		const hashedPassword: string = await bcrypt.hash(
+			req.body.newPassword,
+			salt
+		);
+
+		await wallets.updateOne(
+			{ _id: user._id },
+			{ $set: { "user.password": hashedPassword } }
+		);
+
+		// Log out everywhere, and let them log in straight away
+		await revokeSessions(user._id.toString());
+		await clearFailedLogins(req.params.username);
+
+		res.status(200).json({
+			message: "Password has been reset, every session has been logged out",
+		});
 	}
-	res.status(201).json({
-		message,
-	});
-});
+);
 
 router.post(
 	"/:username/sessions",
@@ -223,6 +552,7 @@ router.post(
 		try {
 			req.body = await Joi.object({
 				password: Joi.string().max(32).required(),
+				code: Joi.string().trim().max(16),
 			}).validateAsync(req.body);
 		} catch (error) {
 			return res.status(400).json({
@@ -231,9 +561,24 @@ router.post(
 			});
 		}
 
+		// Too many failed logins have to wait before trying again. The
+		// attempt counts as failed until it succeeds, so parallel guesses
+		// can't all get past this before any of them are counted
+		const attempt = await reserveLoginAttempt(req.params.username);
+		if (!attempt.allowed) {
+			return res.status(429).json({
+				code: "A0016",
+				message: attempt.lockout.locked
+					? "Account locked after too many failed logins"
+					: "Too many failed logins, try again later",
+				lockout: attempt.lockout,
+			});
+		}
+
 		const wallets: Collection = getMongoCollection("wallets");
 
-		// Check if user is registered
+		// Check if user is registered, failures count
+		// even if they aren't so it doesn't give that away
 		const user: any = await wallets.findOne(
 			{
 				"user.username": req.params.username,
@@ -244,6 +589,7 @@ router.post(
 			return res.status(400).json({
 				code: "U0002",
 				message: "Invalid username or password",
+				lockout: attempt.lockout,
 			});
 		}
 
@@ -256,9 +602,34 @@ router.post(
 			return res.status(400).json({
 				code: "U0002",
 				message: "Invalid username or password",
+				lockout: attempt.lockout,
 			});
 		}
 
+		// Users with two-factor enabled need a code too
+		if (user.user.twoFactor?.enabled) {
+			if (!req.body.code) {
+				return res.status(400).json({
+					code: "U0008",
+					message: "Two-factor code required",
+				});
+			}
+			if (
+				!(await verifyTwoFactor(
+					user._id,
+					user.user.twoFactor,
+					req.body.code
+				))
+			) {
+				return res.status(400).json({
+					code: "U0009",
+					message: "Invalid two-factor code",
+					lockout: attempt.lockout,
+				});
+			}
+		}
+		await clearFailedLogins(req.params.username);
+
 		// Set their session variables
 		req.session.isUser = true;
 		req.session.walletId = user._id;
@@ -267,6 +638,7 @@ router.post(
 			req.session.warehouseAccountId = user.user.warehouseAccountId;
 		}
 		req.session.createdAt = Date.now();
+		await trackSession(req);
 
 		res.status(201).json({
 			message: "Session created",
@@ -274,4 +646,21 @@ router.post(
 	}
 );
 
+router.delete(
+	"/:username/lockout",
+	hasPermission("logins:unlock"),
+	async (req: Request, res: Response) => {
+		const cleared = await clearFailedLogins(req.params.username);
+		if (cleared) {
+			await recordAdminAction(req, "login.unlock", req.params.username);
+		}
+
+		res.status(200).json({
+			message: cleared
+				? "Failed logins cleared, the account is unlocked"
+				: "There were no failed logins to clear",
+		});
+	}
+);
+
 export { router };
@@ -1,14 +1,32 @@
 import express, { Request, Response } from "express";
 import { Collection, ObjectId } from "mongodb";
-import {
-	getMongoCollection,
-	getMongoSession,
-	getRedisConnection,
-} from "../tools/db";
+import { getMongoCollection } from "../tools/db";
 import Joi from "joi";
-import axios from "axios";
 import { Server } from "socket.io";
 import { validateAssets } from "../tools/assetValidation";
+import { idempotent } from "../handlers/idempotency";
+import {
+	getCachedTransactions,
+	getReceipt,
+	getTransactionPage,
+	TransactionDocument,
+} from "../tools/transactions";
+import { buildStatement, statementToCsv } from "../tools/statements";
+import {
+	BatchPayment,
+	normalizeRecipient,
+	paymentError,
+	PaymentStatus,
+	recipientFilter,
+	sendBatchPayment,
+	sendPayment,
+	toBatchResponse,
+	walletName,
+} from "../tools/payments";
+import { toPaymentRequestResponse } from "../tools/paymentRequests";
+import { untrackSession } from "../tools/sessions";
+import { createEscrow, settleEscrow, toEscrowResponse } from "../tools/escrows";
+import { toScheduleResponse } from "../tools/schedules";
 
 const router = express.Router();
 
@@ -20,7 +38,7 @@ router.get("/", async (req: Request, res: Response) => {
 		{
 			_id: new ObjectId(req.session.walletId),
 		},
-		{ projection: { assets: 1 } }
+		{ projection: { assets: 1, heldAssets: 1, limits: 1 } }
 	);
 	if (!result) {
 		return res.status(404).json({
@@ -29,21 +47,8 @@ router.get("/", async (req: Request, res: Response) => {
 		});
 	}
 
-	// Get the transactions and if none are found return error
-	const redis = getRedisConnection();
-	let transactions = await redis.lRange(
-		`wallets:${req.session.walletId}.transactions`,
-		0,
-		9
-	);
-	if (!transactions) {
-		transactions = [];
-	} else {
-		// Parse all the transactions
-		for (let index = 0; index < transactions.length; index++) {
-			transactions[index] = JSON.parse(transactions[index]);
-		}
-	}
+	// Get the latest transactions from the cache
+	const transactions = await getCachedTransactions(req.session.walletId);
 
 	res.status(200).json({
 		isUser: req.session.isUser,
@@ -51,6 +56,8 @@ router.get("/", async (req: Request, res: Response) => {
 			? req.session.address
 			: `#${req.session.address}`,
 		assets: result.assets,
+		heldAssets: result.heldAssets ?? {},
+		limits: result.limits ?? {},
 		transactions,
 	});
 });
@@ -125,13 +132,225 @@ router.get("/assets", async (req: Request, res: Response) => {
 	});
 });
 
-router.post("/transactions", async (req: Request, res: Response) => {
+router.post(
+	"/transactions",
+	idempotent(),
+	async (req: Request, res: Response) => {
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				recipient: Joi.string().required().trim(),
+				memo: Joi.string().max(64),
+				assets: Joi.object().required().min(1),
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		// Validate the req.body.assets
+		const validAssetsResult = await validateAssets(
+			req.body.assets,
+			req,
+			true
+		);
+		if (validAssetsResult < 0) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const result = await sendPayment(
+			{
+				senderId: req.session.walletId,
+				sender: req.session.isUser
+					? req.session.address
+					: `#${req.session.address}`,
+				recipient: req.body.recipient,
+				assets: req.body.assets,
+				memo: req.body.memo,
+			},
+			req.app.get("io") as Server
+		);
+		if (result.status !== PaymentStatus.Success) {
+			return paymentError(res, result);
+		}
+
+		const transaction = result.transaction as TransactionDocument;
+		res.status(201).json({
+			message: "Transaction created and assets sent",
+			id: (transaction._id as ObjectId).toString(),
+			createdAt: transaction.createdAt,
+			recipient: req.body.recipient,
+			memo: req.body.memo,
+			assets: req.body.assets,
+		});
+	}
+);
+
+router.post(
+	"/transactions/batch",
+	idempotent(),
+	async (req: Request, res: Response) => {
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				payments: Joi.array()
+					.items(
+						Joi.object({
+							recipient: Joi.string().required().trim(),
+							memo: Joi.string().max(64),
+							assets: Joi.object().required().min(1),
+						})
+					)
+					.required()
+					.min(1)
+					.max(100),
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		// Validate the assets of every payment
+		for (const payment of req.body.payments) {
+			const validAssetsResult = await validateAssets(
+				payment.assets,
+				req,
+				true
+			);
+			if (validAssetsResult < 0) {
+				return res.status(400).json({
+					code: "G0000",
+					message: "Invalid JSON body",
+				});
+			}
+		}
+
+		const batch: BatchPayment = {
+			senderId: req.session.walletId,
+			sender: req.session.isUser
+				? req.session.address
+				: `#${req.session.address}`,
+			payments: req.body.payments,
+		};
+		const result = await sendBatchPayment(batch, req.app.get("io") as Server);
+		if (result.status !== PaymentStatus.Success) {
+			return paymentError(res, result, {
+				results: toBatchResponse(batch, result),
+			});
+		}
+
+		res.status(201).json({
+			message: "Batch created and assets sent",
+			results: toBatchResponse(batch, result),
+		});
+	}
+);
+
+router.get("/transactions", async (req: Request, res: Response) => {
+	// Validate the query
+	try {
+		req.query = await Joi.object({
+			limit: Joi.number().integer().min(1).max(100).default(10),
+			cursor: Joi.string().length(24).hex(),
+		}).validateAsync(req.query);
+	} catch (error) {
+		return res.status(400).json({
+			code: "G0002",
+			message: "Invalid URL query",
+		});
+	}
+
+	const page = await getTransactionPage(
+		req.session.walletId,
+		Number(req.query.limit),
+		req.query.cursor as string | undefined
+	);
+
+	return res.status(200).json(page);
+});
+
+router.get("/transactions/:id", async (req: Request, res: Response) => {
+	// Validate the id param
+	try {
+		req.params.id = await Joi.string()
+			.required()
+			.length(24)
+			.hex()
+			.validateAsync(req.params.id);
+	} catch (error) {
+		return res.status(400).json({
+			code: "W0007",
+			message: "Invalid transaction id",
+		});
+	}
+
+	const receipt = await getReceipt(req.params.id, req.session.walletId);
+	if (!receipt) {
+		return res.status(404).json({
+			code: "W0008",
+			message: "Transaction not found",
+		});
+	}
+
+	return res.status(200).json(receipt);
+});
+
+router.get("/statements", async (req: Request, res: Response) => {
+	// Validate the query
+	try {
+		req.query = await Joi.object({
+			from: Joi.date().required(),
+			to: Joi.date().required().greater(Joi.ref("from")),
+			format: Joi.string().valid("json", "csv").default("json"),
+		}).validateAsync(req.query);
+	} catch (error) {
+		return res.status(400).json({
+			code: "G0002",
+			message: "Invalid URL query",
+		});
+	}
+
+	const statement = await buildStatement(
+		req.session.walletId,
+		req.query.from as unknown as Date,
+		req.query.to as unknown as Date
+	);
+	if (!statement) {
+		return res.status(404).json({
+			code: "W0001",
+			message: "Wallet couldn't be found",
+		});
+	}
+
+	if (req.query.format === "csv") {
+		return res
+			.status(200)
+			.type("text/csv")
+			.attachment("statement.csv")
+			.send(statementToCsv(statement));
+	}
+	return res.status(200).json(statement);
+});
+
+router.post("/schedules", async (req: Request, res: Response) => {
 	// Validate request body
 	try {
 		req.body = await Joi.object({
 			recipient: Joi.string().required().trim(),
 			memo: Joi.string().max(64),
 			assets: Joi.object().required().min(1),
+			runAt: Joi.date().required().greater("now"),
+			interval: Joi.number()
+				.integer()
+				.min(60)
+				.max(60 * 24 * 365),
 		}).validateAsync(req.body);
 	} catch (error) {
 		return res.status(400).json({
@@ -150,201 +369,502 @@ router.post("/transactions", async (req: Request, res: Response) => {
 	}
 
 	const wallets: Collection = getMongoCollection("wallets");
-	const session = getMongoSession();
-
-	let hasFunds = true;
-	let recipientFound = true;
-	let webhookFailed = false;
-	let recipientId: string | undefined;
-
-	// Use transaction to put funds into recipient's wallet
-	// if its "smart" send to webhook, then remove
-	// funds from senders wallet
-	await session.withTransaction(async () => {
-		// Create query filter and the query update
-		let queryFilter: any;
-		if ((req.body.recipient as string).charAt(0) === "#") {
-			queryFilter = {
-				address: (req.body.recipient as string).substring(1).toLowerCase(),
-			};
-		} else {
-			queryFilter = {
-				"user.username": req.body.recipient,
-			};
-		}
+	const schedules: Collection = getMongoCollection("schedules");
 
-		let queryUpdate: any = {
-			$inc: {},
-		};
-		for (const key in req.body.assets) {
-			queryUpdate.$inc[`assets.${key}`] = req.body.assets[key];
-		}
+	// Make sure the recipient exists now, rather than at the first run
+	const recipient = await wallets.findOne(
+		recipientFilter(req.body.recipient),
+		{ projection: { _id: 1 } }
+	);
+	if (!recipient) {
+		return res.status(404).json({
+			code: "W0003",
+			message: "The recipient couldn't be found",
+		});
+	}
 
-		let recipientResult = await wallets.findOneAndUpdate(
-			queryFilter,
-			queryUpdate,
-			{
-				session,
-				projection: { webhook: 1 },
-			}
-		);
+	const activeSchedules = await schedules.countDocuments({
+		walletId: new ObjectId(req.session.walletId),
+		status: "active",
+	});
+	if (activeSchedules >= 25) {
+		return res.status(400).json({
+			code: "W0011",
+			message: "Too many active schedules",
+		});
+	}
 
-		if (!recipientResult.value) {
-			recipientFound = false;
-			return await session.abortTransaction();
-		} else {
-			recipientId = recipientResult.value._id;
-		}
+	let scheduleDocument: any = {
+		walletId: new ObjectId(req.session.walletId),
+		status: "active",
+		recipient: normalizeRecipient(req.body.recipient),
+		recipientId: recipient._id,
+		assets: req.body.assets,
+		runAt: (req.body.runAt as Date).getTime(),
+		runs: 0,
+		failures: [],
+		createdAt: Date.now(),
+	};
+	if (req.body.interval) {
+		scheduleDocument.interval = req.body.interval;
+	}
+	if (req.body.memo) {
+		scheduleDocument.memo = req.body.memo;
+	}
 
-		// Post transaction to webhook if wallet has one
-		if (recipientResult.value.webhook) {
-			// Create the transaction document to send to their api
-			let transaction: any = {
-				walletId: req.session.walletId,
-				sender: req.session.isUser
-					? req.session.address
-					: `#${req.session.address}`,
-				assets: req.body.assets,
-			};
-			if (req.body.memo) {
-				transaction.memo = req.body.memo;
-			}
+	await schedules.insertOne(scheduleDocument);
 
-			// Who knows what their api is going to do,
-			// just catch any errors...
-			try {
-				let result = await axios.post(
-					recipientResult.value.webhook,
-					transaction,
-					{
-						timeout: 10000,
-					}
-				);
-
-				if (!result) {
-					webhookFailed = true;
-					return await session.abortTransaction();
-				}
-			} catch (error) {
-				webhookFailed = true;
-				return await session.abortTransaction();
-			}
-		}
+	return res.status(201).json({
+		message: "Payment scheduled",
+		...toScheduleResponse(scheduleDocument),
+	});
+});
 
-		// refresh query filter and the query update
-		// for now subtracting the assets
-		queryFilter = {
-			_id: new ObjectId(req.session.walletId),
-		};
-		queryUpdate = {
-			$inc: {},
-		};
+router.get("/schedules", async (req: Request, res: Response) => {
+	const schedules: Collection = getMongoCollection("schedules");
 
-		// Set the filter and update to all the assets
-		for (const key in req.body.assets) {
-			queryFilter[`assets.${key}`] = {
-				$gte: req.body.assets[key],
-			};
+	const scheduleDocuments = await schedules
+		.find({ walletId: new ObjectId(req.session.walletId) })
+		.sort({ _id: -1 })
+		.limit(100)
+		.toArray();
 
-			queryUpdate.$inc[`assets.${key}`] = -req.body.assets[key];
-		}
+	return res.status(200).json(scheduleDocuments.map(toScheduleResponse));
+});
 
-		const senderResult = await wallets.updateOne(queryFilter, queryUpdate, {
-			session,
+router.delete("/schedules/:id", async (req: Request, res: Response) => {
+	// Validate the id param
+	try {
+		req.params.id = await Joi.string()
+			.required()
+			.length(24)
+			.hex()
+			.validateAsync(req.params.id);
+	} catch (error) {
+		return res.status(400).json({
+			code: "W0009",
+			message: "Invalid schedule id",
 		});
+	}
 
-		if (!senderResult.modifiedCount) {
-			hasFunds = false;
-			return await session.abortTransaction();
-		}
+	const schedules: Collection = getMongoCollection("schedules");
+
+	const result = await schedules.updateOne(
+		{
+			_id: new ObjectId(req.params.id),
+			walletId: new ObjectId(req.session.walletId),
+			status: "active",
+		},
+		{ $set: { status: "cancelled" } }
+	);
+	if (!result.modifiedCount) {
+		return res.status(404).json({
+			code: "W0010",
+			message: "Schedule not found",
+		});
+	}
+
+	return res.status(200).json({
+		message: "Schedule cancelled",
 	});
+});
 
-	await session.endSession();
+router.post("/requests", async (req: Request, res: Response) => {
+	// Validate request body
+	try {
+		req.body = await Joi.object({
+			payer: Joi.string().required().trim(),
+			memo: Joi.string().max(64),
+			assets: Joi.object().required().min(1),
+		}).validateAsync(req.body);
+	} catch (error) {
+		return res.status(400).json({
+			code: "G0000",
+			message: "Invalid JSON body",
+		});
+	}
 
-	if (!hasFunds) {
+	// Validate the req.body.assets
+	const validAssetsResult = await validateAssets(req.body.assets, req, true);
+	if (validAssetsResult < 0) {
 		return res.status(400).json({
-			code: "W0002",
-			message: "You don't have the assets to cover this transaction",
+			code: "G0000",
+			message: "Invalid JSON body",
 		});
-	} else if (!recipientFound) {
+	}
+
+	const wallets: Collection = getMongoCollection("wallets");
+	const paymentRequests: Collection = getMongoCollection("paymentRequests");
+
+	const payer = await wallets.findOne(recipientFilter(req.body.payer), {
+		projection: { "user.username": 1, address: 1 },
+	});
+	if (!payer) {
 		return res.status(404).json({
 			code: "W0003",
-			message: "The recipient couldn't be found",
+			message: "The payer couldn't be found",
 		});
-	} else if (webhookFailed) {
+	} else if (payer._id.equals(req.session.walletId)) {
 		return res.status(400).json({
-			code: "W0004",
-			message:
-				"Recipient smart wallet's webhook is down, or declined your transaction",
+			code: "W0015",
+			message: "Can't request assets from yourself",
 		});
 	}
 
-	// Cache transaction for sender
-	const redis = getRedisConnection();
-	let transaction: any = {
-		type: "send",
-		interactant: req.body.recipient,
+	let paymentRequest: any = {
+		requesterId: new ObjectId(req.session.walletId),
+		requester: req.session.isUser
+			? req.session.address
+			: `#${req.session.address}`,
+		payerId: payer._id,
+		payer: walletName(payer),
+		status: "pending",
 		assets: req.body.assets,
+		createdAt: Date.now(),
 	};
 	if (req.body.memo) {
-		transaction.memo = req.body.memo;
-	}
-	await redis
-		.multi()
-		.lPush(
-			`wallets:${req.session.walletId}.transactions`,
-			JSON.stringify(transaction)
-		)
-		.lTrim(`wallets:${req.session.walletId}.transactions`, 0, 9)
-		.expire(`wallets:${req.session.walletId}.transactions`, 60 * 60 * 24 * 5)
-		.exec();
-
-	// Cache transaction for receiver
-	transaction.type = "receive";
-	transaction.interactant = req.session.isUser
-		? req.session.address
-		: `#${req.session.address}`;
-	await redis
-		.multi()
-		.lPush(`wallets:${recipientId}.transactions`, JSON.stringify(transaction))
-		.lTrim(`wallets:${recipientId}.transactions`, 0, 9)
-		.expire(`wallets:${recipientId}.transactions`, 60 * 60 * 24 * 5)
-		.exec();
-
-	// Post to socket room
+		paymentRequest.memo = req.body.memo;
+	}
+
+	await paymentRequests.insertOne(paymentRequest);
+
+	// Let the payer know
+	const response = toPaymentRequestResponse(paymentRequest);
 	(req.app.get("io") as Server)
-		.to(req.body.recipient)
-		.emit("transaction", transaction);
+		.to(paymentRequest.payer)
+		.emit("paymentRequest", response);
 
-	res.status(201).json({
-		message: "Transaction created and assets sent",
-		recipient: req.body.recipient,
-		memo: req.body.memo,
-		assets: req.body.assets,
+	return res.status(201).json({
+		message: "Payment request created",
+		...response,
 	});
 });
 
-router.get("/transactions", async (req: Request, res: Response) => {
-	// Get the transactions and if none are found return error
-	const redis = getRedisConnection();
-	let transactions = await redis.lRange(
-		`wallets:${req.session.walletId}.transactions`,
-		0,
-		9
+router.get("/requests", async (req: Request, res: Response) => {
+	// Validate the query
+	try {
+		req.query = await Joi.object({
+			direction: Joi.string()
+				.valid("incoming", "outgoing")
+				.default("incoming"),
+			status: Joi.string()
+				.valid("pending", "paid", "declined", "all")
+				.default("pending"),
+		}).validateAsync(req.query);
+	} catch (error) {
+		return res.status(400).json({
+			code: "G0002",
+			message: "Invalid URL query",
+		});
+	}
+
+	const paymentRequests: Collection = getMongoCollection("paymentRequests");
+
+	let query: any = {};
+	if (req.query.direction === "incoming") {
+		query.payerId = new ObjectId(req.session.walletId);
+	} else {
+		query.requesterId = new ObjectId(req.session.walletId);
+	}
+	if (req.query.status !== "all") {
+		query.status = req.query.status;
+	}
+
+	const paymentRequestDocuments = await paymentRequests
+		.find(query)
+		.sort({ _id: -1 })
+		.limit(100)
+		.toArray();
+
+	return res
+		.status(200)
+		.json(paymentRequestDocuments.map(toPaymentRequestResponse));
+});
+
+router.post(
+	"/requests/:id/pay",
+	idempotent(),
+	async (req: Request, res: Response) => {
+		// Validate the id param
+		try {
+			req.params.id = await Joi.string()
+				.required()
+				.length(24)
+				.hex()
+				.validateAsync(req.params.id);
+		} catch (error) {
+			return res.status(400).json({
+				code: "W0013",
+				message: "Invalid payment request id",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+		const paymentRequests: Collection = getMongoCollection("paymentRequests");
+
+		let paymentRequest = await paymentRequests.findOne({
+			_id: new ObjectId(req.params.id),
+			payerId: new ObjectId(req.session.walletId),
+			status: "pending",
+		});
+		if (!paymentRequest) {
+			return res.status(404).json({
+				code: "W0014",
+				message: "Payment request not found",
+			});
+		}
+
+		// Pay to the requester's current name incase it has changed
+		const requester = await wallets.findOne(
+			{ _id: paymentRequest.requesterId },
+			{ projection: { "user.username": 1, address: 1 } }
+		);
+		if (!requester) {
+			return res.status(404).json({
+				code: "W0003",
+				message: "The recipient couldn't be found",
+			});
+		}
+
+		// Mark it paid in the same mongo transaction as the payment,
+		// so it can only ever be paid once
+		const resolvedAt = Date.now();
+		const result = await sendPayment(
+			{
+				senderId: req.session.walletId,
+				sender: req.session.isUser
+					? req.session.address
+					: `#${req.session.address}`,
+				recipient: walletName(requester),
+				assets: paymentRequest.assets,
+				memo: paymentRequest.memo,
+				withinTransaction: async (session, transaction) => {
+					const updateResult = await paymentRequests.updateOne(
+						{ _id: new ObjectId(req.params.id), status: "pending" },
+						{
+							$set: {
+								status: "paid",
+								transactionId: transaction._id,
+								resolvedAt,
+							},
+						},
+						{ session }
+					);
+					return !!updateResult.modifiedCount;
+				},
+			},
+			req.app.get("io") as Server
+		);
+		if (result.status === PaymentStatus.Cancelled) {
+			return res.status(404).json({
+				code: "W0014",
+				message: "Payment request not found",
+			});
+		} else if (result.status !== PaymentStatus.Success) {
+			return paymentError(res, result);
+		}
+
+		// Let both parties know
+		paymentRequest.status = "paid";
+		paymentRequest.transactionId = result.transaction?._id;
+		paymentRequest.resolvedAt = resolvedAt;
+		const response = toPaymentRequestResponse(paymentRequest);
+		(req.app.get("io") as Server)
+			.to(walletName(requester))
+			.to(paymentRequest.payer)
+			.emit("paymentRequest", response);
+
+		return res.status(201).json({
+			message: "Payment request paid",
+			...response,
+		});
+	}
+);
+
+router.post("/requests/:id/decline", async (req: Request, res: Response) => {
+	// Validate the id param
+	try {
+		req.params.id = await Joi.string()
+			.required()
+			.length(24)
+			.hex()
+			.validateAsync(req.params.id);
+	} catch (error) {
+		return res.status(400).json({
+			code: "W0013",
+			message: "Invalid payment request id",
+		});
+	}
+
+	const paymentRequests: Collection = getMongoCollection("paymentRequests");
+
+	const result = await paymentRequests.findOneAndUpdate(
+		{
+			_id: new ObjectId(req.params.id),
+			payerId: new ObjectId(req.session.walletId),
+			status: "pending",
+		},
+		{ $set: { status: "declined", resolvedAt: Date.now() } },
+		{ returnDocument: "after" }
+	);
+	if (!result.value) {
+		return res.status(404).json({
+			code: "W0014",
+			message: "Payment request not found",
+		});
+	}
+
+	// Let both parties know
+	const response = toPaymentRequestResponse(result.value);
+	(req.app.get("io") as Server)
+		.to(result.value.requester)
+		.to(result.value.payer)
+		.emit("paymentRequest", response);
+
+	return res.status(200).json({
+		message: "Payment request declined",
+		...response,
+	});
+});
+
+router.post("/escrows", async (req: Request, res: Response) => {
+	// Validate request body
+	try {
+		req.body = await Joi.object({
+			recipient: Joi.string().required().trim(),
+			memo: Joi.string().max(64),
+			assets: Joi.object().required().min(1),
+			expiresAt: Joi.date().required().greater("now"),
+		}).validateAsync(req.body);
+	} catch (error) {
+		return res.status(400).json({
+			code: "G0000",
+			message: "Invalid JSON body",
+		});
+	}
+
+	// Validate the req.body.assets
+	const validAssetsResult = await validateAssets(req.body.assets, req, true);
+	if (validAssetsResult < 0) {
+		return res.status(400).json({
+			code: "G0000",
+			message: "Invalid JSON body",
+		});
+	}
+
+	const result = await createEscrow(
+		req.session.walletId,
+		req.session.isUser ? req.session.address : `#${req.session.address}`,
+		req.body.recipient,
+		req.body.assets,
+		(req.body.expiresAt as Date).getTime(),
+		req.app.get("io") as Server,
+		req.body.memo
 	);
-	if (!transactions) {
-		return res.status(200).json([]);
+	if (result.status !== PaymentStatus.Success) {
+		return paymentError(res, result);
 	}
 
-	// Parse all the transactions
-	for (let index = 0; index < transactions.length; index++) {
-		transactions[index] = JSON.parse(transactions[index]);
+	return res.status(201).json({
+		message: "Escrow created and assets held",
+		...toEscrowResponse(result.escrow),
+	});
+});
+
+router.get("/escrows", async (req: Request, res: Response) => {
+	const escrows: Collection = getMongoCollection("escrows");
+
+	const escrowDocuments = await escrows
+		.find({
+			$or: [
+				{ senderId: new ObjectId(req.session.walletId) },
+				{ recipientId: new ObjectId(req.session.walletId) },
+			],
+		})
+		.sort({ _id: -1 })
+		.limit(100)
+		.toArray();
+
+	return res.status(200).json(escrowDocuments.map(toEscrowResponse));
+});
+
+router.post("/escrows/:id/release", async (req: Request, res: Response) => {
+	// Validate the id param
+	try {
+		req.params.id = await Joi.string()
+			.required()
+			.length(24)
+			.hex()
+			.validateAsync(req.params.id);
+	} catch (error) {
+		return res.status(400).json({
+			code: "W0016",
+			message: "Invalid escrow id",
+		});
+	}
+
+	// Only the sender can release it
+	const escrow = await settleEscrow(
+		{
+			_id: new ObjectId(req.params.id),
+			senderId: new ObjectId(req.session.walletId),
+		},
+		"released",
+		req.app.get("io") as Server
+	);
+	if (!escrow) {
+		return res.status(404).json({
+			code: "W0017",
+			message: "Escrow not found",
+		});
+	}
+
+	return res.status(200).json({
+		message: "Escrow released to recipient",
+		...toEscrowResponse(escrow),
+	});
+});
+
+router.post("/escrows/:id/refund", async (req: Request, res: Response) => {
+	// Validate the id param
+	try {
+		req.params.id = await Joi.string()
+			.required()
+			.length(24)
+			.hex()
+			.validateAsync(req.params.id);
+	} catch (error) {
+		return res.status(400).json({
+			code: "W0016",
+			message: "Invalid escrow id",
+		});
 	}
 
-	return res.status(200).json(transactions);
+	// Only the recipient can give it back early,
+	// otherwise it's refunded when it expires
+	const escrow = await settleEscrow(
+		{
+			_id: new ObjectId(req.params.id),
+			recipientId: new ObjectId(req.session.walletId),
+		},
+		"refunded",
+		req.app.get("io") as Server
+	);
+	if (!escrow) {
+		return res.status(404).json({
+			code: "W0017",
+			message: "Escrow not found",
+		});
+	}
+
+	return res.status(200).json({
+		message: "Escrow refunded to sender",
+		...toEscrowResponse(escrow),
+	});
 });
 
 router.delete("/session", async (req: Request, res: Response) => {
+	await untrackSession(req);
 	await new Promise<void>((resolve, reject) => {
 		req.session.destroy((err: Error) => {
 			if (err) reject(err);
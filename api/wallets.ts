@@ -8,13 +8,157 @@ import {
 import bcrypt from "bcryptjs";
 import { randomLowercaseString, randomString } from "../tools/random";
 import Joi from "joi";
-import { validWalletKey, isLoggedIn, isGuest } from "../handlers/auth";
-import axios from "axios";
+import {
+	validWalletKey,
+	isLoggedIn,
+	isGuest,
+	hasPermission,
+	isCoOwner,
+} from "../handlers/auth";
+import { recordAdminAction } from "../tools/admins";
+import {
+	cancelPendingProposals,
+	executeProposal,
+	notifyCoOwners,
+	toProposalResponse,
+	useApprovedProposal,
+	voteOnProposal,
+	walletActions,
+	WalletAction,
+} from "../tools/proposals";
+import {
+	profileSchema,
+	profileUpdate,
+	toProfileResponse,
+} from "../tools/profiles";
+import { toWalletKeyResponse, walletKeyScopes } from "../tools/walletKeys";
+import {
+	normalizeLimits,
+	spendingLimitsSchema,
+	validateLimits,
+} from "../tools/limits";
 import { Server } from "socket.io";
+import rateLimit from "express-rate-limit";
 import { validateAssets } from "../tools/assetValidation";
+import {
+	generateWebhookSecret,
+	notifyWebhook,
+	isPublicWebhook,
+	pingWebhook,
+	redeliverWebhook,
+	toDeliveryResponse,
+	webhookEvents,
+	WebhookPing,
+} from "../tools/webhooks";
+import { idempotent } from "../handlers/idempotency";
+import { buildStatement, statementToCsv } from "../tools/statements";
+import {
+	BatchPayment,
+	normalizeRecipient,
+	paymentError,
+	PaymentStatus,
+	recipientFilter,
+	sendBatchPayment,
+	sendPayment,
+	toBatchResponse,
+} from "../tools/payments";
+import {
+	cacheTransaction,
+	getReceipt,
+	recordTransaction,
+	toWalletTransaction,
+	TransactionDocument,
+} from "../tools/transactions";
+import { revokeSessions, trackSession } from "../tools/sessions";
+import { clearFailedLogins, reserveLoginAttempt } from "../tools/loginAttempts";
 
 const router = express.Router();
 
+// Pinging a webhook makes the server send a request, so each
+// wallet can only test or verify its webhook so often
+const webhookPingLimiter = rateLimit({
+	windowMs: 60 * 60 * 1000, // 1 hour window
+	max: 10, // limit each wallet to 10 pings per window
+	keyGenerator: (req: Request) => req.wallet._id,
+	// Setting the webhook only pings it when verifying
+	skip: (req: Request) => req.method === "PUT" && !req.body?.verify,
+	handler: (req: Request, res: Response) => {
+		res.status(429).json({
+			code: "W0035",
+			message: "Too many webhook tests, try again later",
+		});
+	},
+});
+
+// Tells a co-owner why their vote on a proposal wasn't recorded
+async function proposalVoteError(req: Request, res: Response) {
+	const proposals: Collection = getMongoCollection("proposals");
+
+	const proposal = await proposals.findOne(
+		{
+			_id: new ObjectId(req.params.id),
+			walletId: new ObjectId(req.wallet._id),
+		},
+		{ projection: { _id: 1 } }
+	);
+	if (!proposal) {
+		return res.status(404).json({
+			code: "W0031",
+			message: "Proposal not found",
+		});
+	}
+
+	return res.status(409).json({
+		code: "W0032",
+		message: "Proposal is no longer pending, or you have already voted on it",
+	});
+}
+
+// Changes to a multi-signature wallet need the `proposalId` of an
+// approved proposal for them, this responds and returns false if not
+async function multisigApproved(
+	req: Request,
+	res: Response,
+	action: WalletAction,
+	details?: any
+): Promise<boolean> {
+	const wallets: Collection = getMongoCollection("wallets");
+
+	const wallet = await wallets.findOne(
+		{ _id: new ObjectId(req.wallet._id) },
+		{ projection: { multisig: 1 } }
+	);
+	if (!wallet?.multisig) {
+		return true;
+	}
+
+	let proposal: any = null;
+	try {
+		const proposalId = await Joi.string()
+			.required()
+			.length(24)
+			.hex()
+			.validateAsync(req.body?.proposalId);
+		proposal = await useApprovedProposal(
+			wallet._id,
+			new ObjectId(proposalId),
+			action,
+			details
+		);
+	} catch (error) {}
+	if (!proposal) {
+		res.status(403).json({
+			code: "W0034",
+			message:
+				"Multi-signature wallets need an approved proposal for this change",
+			action,
+		});
+		return false;
+	}
+
+	return true;
+}
+
 router.post("/", isLoggedIn(true), async (req: Request, res: Response) => {
 	// Validate request body
 	try {
@@ -28,6 +172,12 @@ router.post("/", isLoggedIn(true), async (req: Request, res: Response) => {
 			webhook: Joi.string()
 				.trim()
 				.pattern(/^(http|https):\/\/.*$/),
+			webhookMode: Joi.string()
+				.valid("blocking", "explicit", "async")
+				.default("blocking"),
+			webhookEvents: Joi.array()
+				.items(Joi.string().valid(...webhookEvents))
+				.unique(),
 		}).validateAsync(req.body);
 	} catch (error) {
 		return res.status(400).json({
@@ -35,6 +185,12 @@ router.post("/", isLoggedIn(true), async (req: Request, res: Response) => {
 			message: "Invalid JSON body",
 		});
 	}
+	if (req.body.webhook && !(await isPublicWebhook(req.body.webhook))) {
+		return res.status(400).json({
+			code: "W0036",
+			message: "Webhook must be a publicly reachable address",
+		});
+	}
 
 	const wallets: Collection = getMongoCollection("wallets");
 
@@ -75,21 +231,28 @@ router.post("/", isLoggedIn(true), async (req: Request, res: Response) => {
 		}
 	}
 
-	// Generate and hash the key
+	// Generate and hash the key, and the secret to sign webhooks with
 	let key = randomString(24);
 	const salt: string = await bcrypt.genSalt(10);
 	const hashedKey: string = await bcrypt.hash(key, salt);
+	const webhookSecret = generateWebhookSecret();
 
 	// Create document to insert into db
 	let walletDocument: any = {
 		ownerId: new ObjectId(req.session.walletId),
 		key: hashedKey,
+		keyCreatedAt: Date.now(),
+		webhookSecret,
+		webhookMode: req.body.webhookMode,
 		address: address,
 		assets: {},
 	};
 	if (req.body.webhook) {
 		walletDocument.webhook = req.body.webhook;
 	}
+	if (req.body.webhookEvents) {
+		walletDocument.webhookEvents = req.body.webhookEvents;
+	}
 
 	// catch error if address is already taken
 	try {
@@ -103,10 +266,13 @@ router.post("/", isLoggedIn(true), async (req: Request, res: Response) => {
 
 	return res.status(201).json({
 		message:
-			"Wallet created. The key to access it is attached, and it will never be shown again",
+			"Wallet created. The key to access it and webhook secret are attached, and they will never be shown again",
 		address,
 		key,
 		webhook: req.body.webhook,
+		webhookMode: req.body.webhookMode,
+		webhookEvents: req.body.webhookEvents,
+		webhookSecret,
 	});
 });
 
@@ -126,6 +292,20 @@ router.post(
 			});
 		}
 
+		// Too many failed logins have to wait before trying again. The
+		// attempt counts as failed until it succeeds, so parallel guesses
+		// can't all get past this before any of them are counted
+		const attempt = await reserveLoginAttempt(`#${req.params.address}`);
+		if (!attempt.allowed) {
+			return res.status(429).json({
+				code: "A0016",
+				message: attempt.lockout.locked
+					? "Wallet locked after too many failed logins"
+					: "Too many failed logins, try again later",
+				lockout: attempt.lockout,
+			});
+		}
+
 		const wallets: Collection = getMongoCollection("wallets");
 
 		// Check if wallet is exists
@@ -139,6 +319,7 @@ router.post(
 			return res.status(400).json({
 				code: "W0005",
 				message: "Invalid address or key",
+				lockout: attempt.lockout,
 			});
 		}
 
@@ -148,14 +329,17 @@ router.post(
 			return res.status(400).json({
 				code: "W0005",
 				message: "Invalid address or key",
+				lockout: attempt.lockout,
 			});
 		}
+		await clearFailedLogins(`#${req.params.address}`);
 
 		// Set their session variables
 		req.session.isUser = false;
 		req.session.walletId = wallet._id;
 		req.session.address = wallet.address;
 		req.session.createdAt = Date.now();
+		await trackSession(req);
 
 		return res.status(201).json({
 			message: "Session created",
@@ -163,9 +347,142 @@ router.post(
 	}
 );
 
+router.delete(
+	"/:address/lockout",
+	hasPermission("logins:unlock"),
+	async (req: Request, res: Response) => {
+		const cleared = await clearFailedLogins(`#${req.params.address}`);
+		if (cleared) {
+			await recordAdminAction(req, "login.unlock", `#${req.params.address}`);
+		}
+
+		res.status(200).json({
+			message: cleared
+				? "Failed logins cleared, the wallet is unlocked"
+				: "There were no failed logins to clear",
+		});
+	}
+);
+
+router.get("/:address/profile", async (req: Request, res: Response) => {
+	// Validate address param
+	try {
+		req.params.address = await Joi.string()
+			.required()
+			.lowercase()
+			.min(3)
+			.max(24)
+			.pattern(/^[a-zA-Z]{3,}$/)
+			.validateAsync(req.params.address);
+	} catch (error) {
+		return res.status(400).json({
+			code: "A0006",
+			message: "Invalid address",
+		});
+	}
+
+	const wallets: Collection = getMongoCollection("wallets");
+
+	const wallet = await wallets.findOne(
+		{ address: req.params.address },
+		{ projection: { address: 1, profile: 1, verified: 1 } }
+	);
+	if (!wallet) {
+		return res.status(404).json({
+			code: "W0001",
+			message: "Wallet not found",
+		});
+	}
+
+	res.status(200).json(toProfileResponse(wallet));
+});
+
+router.put(
+	"/:address/profile",
+	isLoggedIn(true),
+	validWalletKey("wallet:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+		// Validate request body
+		try {
+			req.body = await profileSchema.validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		const result = await wallets.findOneAndUpdate(
+			{ _id: new ObjectId(req.wallet._id) },
+			profileUpdate(req.body),
+			{
+				returnDocument: "after",
+				projection: { address: 1, profile: 1, verified: 1 },
+			}
+		);
+
+		res.status(200).json({
+			message: "Profile has been updated",
+			...toProfileResponse(result.value),
+		});
+	}
+);
+
+router.put(
+	"/:address/verified",
+	hasPermission("profiles:verify"),
+	async (req: Request, res: Response) => {
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				verified: Joi.boolean().required(),
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		const updateResult = await wallets.updateOne(
+			{ address: req.params.address.toLowerCase() },
+			req.body.verified
+				? { $set: { verified: true } }
+				: { $unset: { verified: "" } }
+		);
+		if (!updateResult.matchedCount) {
+			return res.status(404).json({
+				code: "W0001",
+				message: "Wallet not found",
+			});
+		}
+
+		await recordAdminAction(
+			req,
+			req.body.verified ? "profile.verify" : "profile.unverify",
+			`#${req.params.address.toLowerCase()}`
+		);
+
+		res.status(200).json({
+			message: "Verified flag has been updated",
+			verified: req.body.verified,
+		});
+	}
+);
+
 router.get(
 	"/:address/assets",
-	validWalletKey(),
+	validWalletKey("assets:read"),
 	async (req: Request, res: Response) => {
 		const wallets: Collection = getMongoCollection("wallets");
 
@@ -189,7 +506,8 @@ router.get(
 
 router.post(
 	"/:address/transactions",
-	validWalletKey(),
+	validWalletKey("transactions:send"),
+	idempotent(),
 	async (req: Request, res: Response) => {
 		// Validate request body
 		try {
@@ -214,191 +532,171 @@ router.post(
 			});
 		}
 
-		const wallets: Collection = getMongoCollection("wallets");
-		const session = getMongoSession();
-
-		let hasFunds = true;
-		let recipientFound = true;
-		let webhookFailed = false;
-		let recipientId: string | undefined;
+		const result = await sendPayment(
+			{
+				senderId: req.wallet._id,
+				sender: `#${req.wallet.address}`,
+				keyId: req.wallet.keyId,
+				recipient: req.body.recipient,
+				assets: req.body.assets,
+				memo: req.body.memo,
+			},
+			req.app.get("io") as Server
+		);
+		if (result.status !== PaymentStatus.Success) {
+			return paymentError(res, result);
+		}
 
-		// Use transaction to put funds into recipient's wallet
-		// if its "smart" send to webhook, then remove
-		// funds from senders wallet
-		await session.withTransaction(async () => {
-			// Create query filter and the query update
-			let queryFilter: any;
-			if ((req.body.recipient as string).charAt(0) === "#") {
-				queryFilter = {
-					address: (req.body.recipient as string)
-						.substring(1)
-						.toLowerCase(),
-				};
-			} else {
-				queryFilter = {
-					"user.username": req.body.recipient,
-				};
-			}
+		const transaction = result.transaction as TransactionDocument;
+		res.status(201).json({
+			message: "Transaction created and assets sent",
+			id: (transaction._id as ObjectId).toString(),
+			createdAt: transaction.createdAt,
+			recipient: req.body.recipient,
+			memo: req.body.memo,
+			assets: req.body.assets,
+		});
+	}
+);
 
-			let queryUpdate: any = {
-				$inc: {},
-			};
-			for (const key in req.body.assets) {
-				queryUpdate.$inc[`assets.${key}`] = req.body.assets[key];
-			}
+router.post(
+	"/:address/transactions/batch",
+	validWalletKey("transactions:send"),
+	idempotent(),
+	async (req: Request, res: Response) => {
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				payments: Joi.array()
+					.items(
+						Joi.object({
+							recipient: Joi.string().required().trim(),
+							memo: Joi.string().max(64),
+							assets: Joi.object().required().min(1),
+						})
+					)
+					.required()
+					.min(1)
+					.max(100),
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
 
-			let recipientResult = await wallets.findOneAndUpdate(
-				queryFilter,
-				queryUpdate,
-				{
-					session,
-					projection: { webhook: 1 },
-				}
+		// Validate the assets of every payment
+		for (const payment of req.body.payments) {
+			const validAssetsResult = await validateAssets(
+				payment.assets,
+				req,
+				true
 			);
-
-			if (!recipientResult.value) {
-				recipientFound = false;
-				return await session.abortTransaction();
-			} else {
-				recipientId = recipientResult.value._id;
-			}
-
-			// Post transaction to webhook if wallet has one
-			if (recipientResult.value.webhook) {
-				// Create the transaction document to send to their api
-				let transaction: any = {
-					walletId: req.wallet._id,
-					sender: `#${req.wallet.address}`,
-					assets: req.body.assets,
-				};
-				if (req.body.memo) {
-					transaction.memo = req.body.memo;
-				}
-
-				// Who knows what their api is going to do,
-				// just catch any errors...
-				try {
-					let result = await axios.post(
-						recipientResult.value.webhook,
-						transaction,
-						{
-							timeout: 10000,
-						}
-					);
-
-					if (!result) {
-						webhookFailed = true;
-						return await session.abortTransaction();
-					}
-				} catch (error) {
-					webhookFailed = true;
-					return await session.abortTransaction();
-				}
-			}
-
-			// refresh query filter and the query update
-			// for now subtracting the assets
-			queryFilter = {
-				address: req.params.address,
-			};
-			queryUpdate = {
-				$inc: {},
-			};
-
-			// Set the filter and update to all the assets
-			for (const key in req.body.assets) {
-				queryFilter[`assets.${key}`] = {
-					$gte: req.body.assets[key],
-				};
-
-				queryUpdate.$inc[`assets.${key}`] = -req.body.assets[key];
+			if (validAssetsResult < 0) {
+				return res.status(400).json({
+					code: "G0000",
+					message: "Invalid JSON body",
+				});
 			}
+		}
 
-			const senderResult = await wallets.updateOne(
-				queryFilter,
-				queryUpdate,
-				{
-					session,
-				}
-			);
+		const batch: BatchPayment = {
+			senderId: req.wallet._id,
+			sender: `#${req.wallet.address}`,
+			keyId: req.wallet.keyId,
+			payments: req.body.payments,
+		};
+		const result = await sendBatchPayment(batch, req.app.get("io") as Server);
+		if (result.status !== PaymentStatus.Success) {
+			return paymentError(res, result, {
+				results: toBatchResponse(batch, result),
+			});
+		}
 
-			if (!senderResult.modifiedCount) {
-				hasFunds = false;
-				return await session.abortTransaction();
-			}
+		res.status(201).json({
+			message: "Batch created and assets sent",
+			results: toBatchResponse(batch, result),
 		});
+	}
+);
 
-		await session.endSession();
-
-		if (!hasFunds) {
+router.get(
+	"/:address/transactions/:id",
+	validWalletKey("transactions:read"),
+	async (req: Request, res: Response) => {
+		// Validate the id param
+		try {
+			req.params.id = await Joi.string()
+				.required()
+				.length(24)
+				.hex()
+				.validateAsync(req.params.id);
+		} catch (error) {
 			return res.status(400).json({
-				code: "W0002",
-				message: "You don't have the assets to cover this transaction",
+				code: "W0007",
+				message: "Invalid transaction id",
 			});
-		} else if (!recipientFound) {
+		}
+
+		const receipt = await getReceipt(req.params.id, req.wallet._id);
+		if (!receipt) {
 			return res.status(404).json({
-				code: "W0003",
-				message: "The recipient couldn't be found",
+				code: "W0008",
+				message: "Transaction not found",
 			});
-		} else if (webhookFailed) {
+		}
+
+		return res.status(200).json(receipt);
+	}
+);
+
+router.get(
+	"/:address/statements",
+	validWalletKey("transactions:read"),
+	async (req: Request, res: Response) => {
+		// Validate the query
+		try {
+			req.query = await Joi.object({
+				from: Joi.date().required(),
+				to: Joi.date().required().greater(Joi.ref("from")),
+				format: Joi.string().valid("json", "csv").default("json"),
+			}).validateAsync(req.query);
+		} catch (error) {
 			return res.status(400).json({
-				code: "W0004",
-				message:
-					"Recipient smart wallet's webhook is down, or declined your transaction",
+				code: "G0002",
+				message: "Invalid URL query",
 			});
 		}
 
-		// Cache transaction for sender
-		const redis = getRedisConnection();
-		let transaction: any = {
-			type: "send",
-			interactant: req.body.recipient,
-			assets: req.body.assets,
-		};
-		if (req.body.memo) {
-			transaction.memo = req.body.memo;
+		const statement = await buildStatement(
+			req.wallet._id,
+			req.query.from as unknown as Date,
+			req.query.to as unknown as Date
+		);
+		if (!statement) {
+			return res.status(404).json({
+				code: "W0001",
+				message: "Wallet not found",
+			});
 		}
-		await redis
-			.multi()
-			.lPush(
-				`wallets:${req.wallet._id}.transactions`,
-				JSON.stringify(transaction)
-			)
-			.lTrim(`wallets:${req.wallet._id}.transactions`, 0, 9)
-			.expire(`wallets:${req.wallet._id}.transactions`, 60 * 60 * 24 * 5)
-			.exec();
-
-		// Cache transaction for receiver
-		transaction.type = "receive";
-		transaction.interactant = `#${req.wallet.address}`;
-		await redis
-			.multi()
-			.lPush(
-				`wallets:${recipientId}.transactions`,
-				JSON.stringify(transaction)
-			)
-			.lTrim(`wallets:${recipientId}.transactions`, 0, 9)
-			.expire(`wallets:${recipientId}.transactions`, 60 * 60 * 24 * 5)
-			.exec();
-
-		// Post to socket room
-		(req.app.get("io") as Server)
-			.to(req.body.recipient)
-			.emit("transaction", transaction);
 
-		res.status(201).json({
-			message: "Transaction created and assets sent",
-			recipient: req.body.recipient,
-			memo: req.body.memo,
-			assets: req.body.assets,
-		});
+		if (req.query.format === "csv") {
+			return res
+				.status(200)
+				.type("text/csv")
+				.attachment("statement.csv")
+				.send(statementToCsv(statement));
+		}
+		return res.status(200).json(statement);
 	}
 );
 
 router.put(
 	"/:address/webhook",
 	isLoggedIn(true),
-	validWalletKey(),
+	validWalletKey("webhooks:manage"),
+	webhookPingLimiter,
 	async (req: Request, res: Response) => {
 		if (req.wallet.ownerId !== req.session.walletId) {
 			return res.status(403).json({
@@ -412,6 +710,13 @@ router.put(
 					.required()
 					.trim()
 					.pattern(/^(http|https):\/\/.*$/),
+				mode: Joi.string()
+					.valid("blocking", "explicit", "async")
+					.default("blocking"),
+				events: Joi.array()
+					.items(Joi.string().valid(...webhookEvents))
+					.unique(),
+				verify: Joi.boolean().default(false),
 			}).validateAsync(req.body);
 		} catch (error) {
 			return res.status(400).json({
@@ -420,24 +725,67 @@ router.put(
 			});
 		}
 
+		if (!(await isPublicWebhook(req.body.webhook))) {
+			return res.status(400).json({
+				code: "W0036",
+				message: "Webhook must be a publicly reachable address",
+			});
+		}
+
+		// Check it can be reached before saving it, the ping is
+		// unsigned as the new secret hasn't been handed out yet
+		let verification: WebhookPing | undefined;
+		if (req.body.verify) {
+			verification = await pingWebhook(
+				req.body.webhook,
+				undefined,
+				req.wallet.address,
+				req.body.mode
+			);
+			if (!verification.delivered) {
+				return res.status(400).json({
+					code: "W0023",
+					message: "Webhook couldn't be reached, it hasn't been saved",
+					verification,
+				});
+			}
+		}
+
 		const wallets: Collection = getMongoCollection("wallets");
 
+		// New webhook, so new secret to sign its deliveries
+		const webhookSecret = generateWebhookSecret();
+		let queryUpdate: any = {
+			$set: {
+				webhook: req.body.webhook,
+				webhookMode: req.body.mode,
+				webhookSecret,
+			},
+		};
+		if (req.body.events) {
+			queryUpdate.$set.webhookEvents = req.body.events;
+		}
 		await wallets.updateOne(
 			{ _id: new ObjectId(req.wallet._id) },
-			{ $set: { webhook: req.body.webhook } }
+			queryUpdate
 		);
 
 		res.status(200).json({
-			message: "Webhook has been updated",
+			message:
+				"Webhook has been updated. The secret to verify it is attached, and it will never be shown again",
 			webhook: req.body.webhook,
+			mode: req.body.mode,
+			events: req.body.events,
+			webhookSecret,
+			verification,
 		});
 	}
 );
 
-router.delete(
-	"/:address/webhook",
+router.put(
+	"/:address/webhook/secret",
 	isLoggedIn(true),
-	validWalletKey(),
+	validWalletKey("webhooks:manage"),
 	async (req: Request, res: Response) => {
 		if (req.wallet.ownerId !== req.session.walletId) {
 			return res.status(403).json({
@@ -445,23 +793,63 @@ router.delete(
 				message: "Only the owner of the wallet can do this",
 			});
 		}
+
+		// Generate the new secret
+		const webhookSecret = generateWebhookSecret();
+
 		const wallets: Collection = getMongoCollection("wallets");
 
 		await wallets.updateOne(
 			{ _id: new ObjectId(req.wallet._id) },
-			{ $unset: { webhook: "" } }
+			{ $set: { webhookSecret } }
 		);
 
 		res.status(200).json({
-			message: "Webhook has been removed",
+			message: "Webhook secret changed and attached",
+			webhookSecret,
+		});
+	}
+);
+
+router.post(
+	"/:address/webhook/test",
+	validWalletKey("webhooks:manage"),
+	webhookPingLimiter,
+	async (req: Request, res: Response) => {
+		const wallets: Collection = getMongoCollection("wallets");
+
+		const wallet = await wallets.findOne(
+			{ _id: new ObjectId(req.wallet._id) },
+			{ projection: { webhook: 1, webhookSecret: 1, webhookMode: 1 } }
+		);
+		if (!wallet?.webhook) {
+			return res.status(400).json({
+				code: "W0022",
+				message: "Wallet doesn't have a webhook",
+			});
+		}
+
+		const ping = await pingWebhook(
+			wallet.webhook,
+			wallet.webhookSecret,
+			req.wallet.address,
+			wallet.webhookMode
+		);
+
+		res.status(200).json({
+			message: ping.delivered
+				? "Test delivery accepted by the webhook"
+				: "Test delivery failed",
+			webhook: wallet.webhook,
+			...ping,
 		});
 	}
 );
 
 router.put(
-	"/:address/owner",
+	"/:address/webhook/events",
 	isLoggedIn(true),
-	validWalletKey(),
+	validWalletKey("webhooks:manage"),
 	async (req: Request, res: Response) => {
 		if (req.wallet.ownerId !== req.session.walletId) {
 			return res.status(403).json({
@@ -472,7 +860,10 @@ router.put(
 		// Validate request body
 		try {
 			req.body = await Joi.object({
-				username: Joi.string().required().trim(),
+				events: Joi.array()
+					.items(Joi.string().valid(...webhookEvents))
+					.unique()
+					.required(),
 			}).validateAsync(req.body);
 		} catch (error) {
 			return res.status(400).json({
@@ -483,39 +874,623 @@ router.put(
 
 		const wallets: Collection = getMongoCollection("wallets");
 
-		// Get user by username, see if exists
-		const newOwner = await wallets.findOne(
-			{
-				"user.username": req.body.username,
-			},
-			{ projection: { _id: 1 } }
+		await wallets.updateOne(
+			{ _id: new ObjectId(req.wallet._id) },
+			{ $set: { webhookEvents: req.body.events } }
+		);
+
+		res.status(200).json({
+			message: "Webhook events have been updated",
+			events: req.body.events,
+		});
+	}
+);
+
+router.get(
+	"/:address/webhook/deliveries",
+	validWalletKey("webhooks:manage"),
+	async (req: Request, res: Response) => {
+		// Validate the query
+		try {
+			req.query = await Joi.object({
+				status: Joi.string().valid("pending", "delivered", "failed"),
+				limit: Joi.number().integer().min(1).max(100).default(25),
+				cursor: Joi.string().length(24).hex(),
+			}).validateAsync(req.query);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0002",
+				message: "Invalid URL query",
+			});
+		}
+
+		const deliveries: Collection = getMongoCollection("webhookDeliveries");
+
+		let query: any = { walletId: new ObjectId(req.wallet._id) };
+		if (req.query.status) {
+			query.status = req.query.status;
+		}
+		if (req.query.cursor) {
+			query._id = { $lt: new ObjectId(req.query.cursor as string) };
+		}
+
+		// Get one extra to know if there is a next page
+		const limit = Number(req.query.limit);
+		const deliveryDocuments = await deliveries
+			.find(query)
+			.sort({ _id: -1 })
+			.limit(limit + 1)
+			.toArray();
+
+		let cursor: string | null = null;
+		if (deliveryDocuments.length > limit) {
+			deliveryDocuments.pop();
+			cursor =
+				deliveryDocuments[deliveryDocuments.length - 1]._id.toString();
+		}
+
+		return res.status(200).json({
+			deliveries: deliveryDocuments.map(toDeliveryResponse),
+			cursor,
+		});
+	}
+);
+
+router.post(
+	"/:address/webhook/deliveries/:id/redeliver",
+	validWalletKey("webhooks:manage"),
+	async (req: Request, res: Response) => {
+		// Validate the id param
+		try {
+			req.params.id = await Joi.string()
+				.required()
+				.length(24)
+				.hex()
+				.validateAsync(req.params.id);
+		} catch (error) {
+			return res.status(400).json({
+				code: "W0019",
+				message: "Invalid delivery id",
+			});
+		}
+
+		const delivery = await redeliverWebhook(req.params.id, req.wallet._id);
+		if (!delivery) {
+			return res.status(404).json({
+				code: "W0020",
+				message: "Delivery not found, or can't be redelivered",
+			});
+		}
+
+		return res.status(200).json({
+			message: "Delivery attempted, and retried if it failed",
+			...toDeliveryResponse(delivery),
+		});
+	}
+);
+
+router.delete(
+	"/:address/webhook",
+	isLoggedIn(true),
+	validWalletKey("webhooks:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+		const wallets: Collection = getMongoCollection("wallets");
+
+		await wallets.updateOne(
+			{ _id: new ObjectId(req.wallet._id) },
+			{ $unset: { webhook: "" } }
+		);
+
+		res.status(200).json({
+			message: "Webhook has been removed",
+		});
+	}
+);
+
+router.put(
+	"/:address/owner",
+	isLoggedIn(true),
+	validWalletKey("wallet:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				username: Joi.string().required().trim(),
+				proposalId: Joi.string(),
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		// Get user by username, see if exists
+		const newOwner = await wallets.findOne(
+			{
+				"user.username": req.body.username,
+			},
+			{ projection: { _id: 1 } }
+		);
+		if (!newOwner) {
+			return res.status(404).json({
+				code: "U0001",
+				message: "User not found",
+			});
+		}
+
+		if (
+			!(await multisigApproved(req, res, "owner.change", {
+				"owner.username": req.body.username,
+			}))
+		) {
+			return;
+		}
+
+		await wallets.updateOne(
+			{ _id: new ObjectId(req.wallet._id) },
+			{ $set: { ownerId: new ObjectId(newOwner._id) } }
+		);
+
+		// The owner is always one of the co-owners
+		const multisigResult = await wallets.updateOne(
+			{ _id: new ObjectId(req.wallet._id), multisig: { $exists: true } },
+			{ $addToSet: { "multisig.ownerIds": newOwner._id } }
+		);
+		if (multisigResult.modifiedCount) {
+			await cancelPendingProposals(new ObjectId(req.wallet._id));
+		}
+
+		await notifyWebhook(req.wallet._id, "owner.changed", {
+			address: req.wallet.address,
+			previousOwnerId: req.wallet.ownerId,
+			owner: {
+				_id: newOwner._id.toString(),
+				username: req.body.username,
+			},
+			changedAt: Date.now(),
+		});
+
+		res.status(200).json({
+			message: "Owner has been updated",
+			owner: {
+				_id: newOwner._id,
+				username: req.body.username,
+			},
+		});
+	}
+);
+
+router.get(
+	"/:address/limits",
+	isLoggedIn(true),
+	validWalletKey("wallet:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+		const wallets: Collection = getMongoCollection("wallets");
+
+		const wallet = await wallets.findOne(
+			{ _id: new ObjectId(req.wallet._id) },
+			{ projection: { limits: 1, keys: 1 } }
+		);
+
+		res.status(200).json({
+			limits: wallet?.limits ?? {},
+			keys: (wallet?.keys ?? []).map((key: any) => ({
+				id: key._id.toString(),
+				name: key.name,
+				limits: key.limits ?? {},
+			})),
+		});
+	}
+);
+
+router.put(
+	"/:address/limits",
+	isLoggedIn(true),
+	validWalletKey("wallet:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+		// Validate request body
+		try {
+			req.body = await spendingLimitsSchema
+				.required()
+				.validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+		if (!(await validateLimits(req.body, req))) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		// An empty object removes the limits
+		const limits = normalizeLimits(req.body);
+		await wallets.updateOne(
+			{ _id: new ObjectId(req.wallet._id) },
+			Object.keys(limits).length
+				? { $set: { limits } }
+				: { $unset: { limits: "" } }
+		);
+
+		res.status(200).json({
+			message: "Wallet limits have been updated",
+			limits,
+		});
+	}
+);
+
+router.put(
+	"/:address/key",
+	isLoggedIn(true),
+	validWalletKey("wallet:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+
+		// Generate the new key
+		let key = randomString(24);
+		const salt: string = await bcrypt.genSalt(10);
+		const hashedKey: string = await bcrypt.hash(key, salt);
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		await wallets.updateOne(
+			{ _id: new ObjectId(req.wallet._id) },
+			{ $set: { key: hashedKey, keyCreatedAt: Date.now() } }
+		);
+
+		await notifyWebhook(req.wallet._id, "key.rotated", {
+			address: req.wallet.address,
+			rotatedAt: Date.now(),
+		});
+
+		res.status(200).json({
+			message: "Key changed and attached",
+			key,
+		});
+	}
+);
+
+router.post(
+	"/:address/keys",
+	isLoggedIn(true),
+	validWalletKey("wallet:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				name: Joi.string().required().trim().min(1).max(32),
+				scopes: Joi.array()
+					.items(Joi.string().valid(...walletKeyScopes))
+					.unique()
+					.required()
+					.min(1),
+				expiresAt: Joi.date().timestamp().greater("now"),
+				limits: spendingLimitsSchema,
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+		if (req.body.limits && !(await validateLimits(req.body.limits, req))) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		// Generate and hash the secret, the key is sent as `<id>.<secret>`
+		const secret = randomString(24);
+		const salt: string = await bcrypt.genSalt(10);
+		const hashedSecret: string = await bcrypt.hash(secret, salt);
+
+		let keyDocument: any = {
+			_id: new ObjectId(),
+			name: req.body.name,
+			key: hashedSecret,
+			scopes: req.body.scopes,
+			createdAt: Date.now(),
+		};
+		if (req.body.expiresAt) {
+			keyDocument.expiresAt = (req.body.expiresAt as Date).getTime();
+		}
+		if (req.body.limits) {
+			keyDocument.limits = normalizeLimits(req.body.limits);
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		// Only add it if they have less than 25
+		const updateResult = await wallets.updateOne(
+			{ _id: new ObjectId(req.wallet._id), "keys.24": { $exists: false } },
+			{ $push: { keys: keyDocument } }
+		);
+		if (!updateResult.modifiedCount) {
+			return res.status(400).json({
+				code: "W0026",
+				message: "A wallet can't have more than 25 named keys",
+			});
+		}
+
+		res.status(201).json({
+			message: "Key created and attached, it will never be shown again",
+			...toWalletKeyResponse(keyDocument),
+			key: `${keyDocument._id.toString()}.${secret}`,
+		});
+	}
+);
+
+router.get(
+	"/:address/keys",
+	isLoggedIn(true),
+	validWalletKey("wallet:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		const wallet = await wallets.findOne(
+			{ _id: new ObjectId(req.wallet._id) },
+			{ projection: { keys: 1 } }
+		);
+
+		res.status(200).json({
+			keys: (wallet?.keys ?? []).map(toWalletKeyResponse),
+		});
+	}
+);
+
+router.put(
+	"/:address/keys/:id/limits",
+	isLoggedIn(true),
+	validWalletKey("wallet:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+		// Validate the id param
+		try {
+			req.params.id = await Joi.string()
+				.required()
+				.length(24)
+				.hex()
+				.validateAsync(req.params.id);
+		} catch (error) {
+			return res.status(400).json({
+				code: "W0024",
+				message: "Invalid key id",
+			});
+		}
+		// Validate request body
+		try {
+			req.body = await spendingLimitsSchema
+				.required()
+				.validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+		if (!(await validateLimits(req.body, req))) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		// An empty object removes the limits
+		const limits = normalizeLimits(req.body);
+		const updateResult = await wallets.updateOne(
+			{
+				_id: new ObjectId(req.wallet._id),
+				"keys._id": new ObjectId(req.params.id),
+			},
+			Object.keys(limits).length
+				? { $set: { "keys.$.limits": limits } }
+				: { $unset: { "keys.$.limits": "" } }
 		);
-		if (!newOwner) {
+		if (!updateResult.matchedCount) {
+			return res.status(404).json({
+				code: "W0025",
+				message: "Key not found",
+			});
+		}
+
+		res.status(200).json({
+			message: "Key limits have been updated",
+			limits,
+		});
+	}
+);
+
+router.delete(
+	"/:address/keys/:id",
+	isLoggedIn(true),
+	validWalletKey("wallet:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+		// Validate the id param
+		try {
+			req.params.id = await Joi.string()
+				.required()
+				.length(24)
+				.hex()
+				.validateAsync(req.params.id);
+		} catch (error) {
+			return res.status(400).json({
+				code: "W0024",
+				message: "Invalid key id",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		const updateResult = await wallets.updateOne(
+			{ _id: new ObjectId(req.wallet._id) },
+			{ $pull: { keys: { _id: new ObjectId(req.params.id) } } }
+		);
+		if (!updateResult.modifiedCount) {
+			return res.status(404).json({
+				code: "W0025",
+				message: "Key not found",
+			});
+		}
+
+		res.status(200).json({
+			message: "Key has been revoked",
+		});
+	}
+);
+
+router.put(
+	"/:address/multisig",
+	isLoggedIn(true),
+	validWalletKey("wallet:manage"),
+	async (req: Request, res: Response) => {
+		if (req.wallet.ownerId !== req.session.walletId) {
+			return res.status(403).json({
+				code: "W0006",
+				message: "Only the owner of the wallet can do this",
+			});
+		}
+		// Validate request body
+		try {
+			req.body = await Joi.object({
+				coOwners: Joi.array()
+					.items(Joi.string().trim())
+					.unique()
+					.required()
+					.min(1)
+					.max(19),
+				threshold: Joi.number().integer().required().min(1).max(20),
+				proposalId: Joi.string(),
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+
+		// The owner is always one of the co-owners
+		const coOwners = await wallets
+			.find(
+				{ "user.username": { $in: req.body.coOwners } },
+				{ projection: { "user.username": 1 } }
+			)
+			.toArray();
+		if (coOwners.length !== req.body.coOwners.length) {
 			return res.status(404).json({
 				code: "U0001",
 				message: "User not found",
 			});
 		}
+		let ownerIds = [new ObjectId(req.wallet.ownerId)];
+		for (const coOwner of coOwners) {
+			if (!coOwner._id.equals(req.wallet.ownerId)) {
+				ownerIds.push(coOwner._id);
+			}
+		}
+		if (req.body.threshold > ownerIds.length) {
+			return res.status(400).json({
+				code: "W0033",
+				message: "The threshold can't be more than the number of co-owners",
+			});
+		}
+
+		// Changing who co-owns it needs their approval once it's set
+		if (
+			!(await multisigApproved(req, res, "multisig.update", {
+				"multisig.coOwners": [...req.body.coOwners].sort(),
+				"multisig.threshold": req.body.threshold,
+			}))
+		) {
+			return;
+		}
 
 		await wallets.updateOne(
 			{ _id: new ObjectId(req.wallet._id) },
-			{ $set: { ownerId: new ObjectId(newOwner._id) } }
+			{ $set: { multisig: { ownerIds, threshold: req.body.threshold } } }
 		);
 
+		// Pending proposals were made for the old co-owners
+		await cancelPendingProposals(new ObjectId(req.wallet._id));
+
 		res.status(200).json({
-			message: "Owner has been updated",
-			owner: {
-				_id: newOwner._id,
-				username: req.body.username,
-			},
+			message:
+				"Wallet is now multi-signature, payments must be proposed and approved",
+			owners: ownerIds.length,
+			threshold: req.body.threshold,
 		});
 	}
 );
 
-router.put(
-	"/:address/key",
+router.delete(
+	"/:address/multisig",
 	isLoggedIn(true),
-	validWalletKey(),
+	validWalletKey("wallet:manage"),
 	async (req: Request, res: Response) => {
 		if (req.wallet.ownerId !== req.session.walletId) {
 			return res.status(403).json({
@@ -523,29 +1498,364 @@ router.put(
 				message: "Only the owner of the wallet can do this",
 			});
 		}
-
-		// Generate the new key
-		let key = randomString(24);
-		const salt: string = await bcrypt.genSalt(10);
-		const hashedKey: string = await bcrypt.hash(key, salt);
+		if (!(await multisigApproved(req, res, "multisig.disable"))) {
+			return;
+		}
 
 		const wallets: Collection = getMongoCollection("wallets");
 
 		await wallets.updateOne(
 			{ _id: new ObjectId(req.wallet._id) },
-			{ $set: { key: hashedKey } }
+			{ $unset: { multisig: "" } }
 		);
+		await cancelPendingProposals(new ObjectId(req.wallet._id));
 
 		res.status(200).json({
-			message: "Key changed and attached",
-			key,
+			message: "Wallet is no longer multi-signature",
+		});
+	}
+);
+
+router.post(
+	"/:address/proposals",
+	isLoggedIn(true),
+	isCoOwner(),
+	async (req: Request, res: Response) => {
+		// Validate request body
+		try {
+			const forAction = (action: string, schema: Joi.Schema) =>
+				schema.when("action", {
+					is: action,
+					then: Joi.required(),
+					otherwise: Joi.forbidden(),
+				});
+			req.body = await Joi.object({
+				action: Joi.string()
+					.valid("payment", ...walletActions)
+					.default("payment"),
+				recipient: forAction("payment", Joi.string().trim()),
+				memo: Joi.string().max(64),
+				assets: forAction("payment", Joi.object().min(1)),
+				owner: forAction("owner.change", Joi.string().trim()),
+				coOwners: forAction(
+					"multisig.update",
+					Joi.array().items(Joi.string().trim()).unique().min(1).max(19)
+				),
+				threshold: forAction(
+					"multisig.update",
+					Joi.number().integer().min(1).max(20)
+				),
+				expiresAt: Joi.date()
+					.timestamp()
+					.greater("now")
+					.less(Date.now() + 1000 * 60 * 60 * 24 * 30),
+			}).validateAsync(req.body);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		// Validate the req.body.assets
+		if (
+			req.body.action === "payment" &&
+			(await validateAssets(req.body.assets, req, true)) < 0
+		) {
+			return res.status(400).json({
+				code: "G0000",
+				message: "Invalid JSON body",
+			});
+		}
+
+		const wallets: Collection = getMongoCollection("wallets");
+		const proposals: Collection = getMongoCollection("proposals");
+
+		const wallet = await wallets.findOne(
+			{ _id: new ObjectId(req.wallet._id) },
+			{ projection: { multisig: 1 } }
+		);
+		if (!wallet?.multisig) {
+			return res.status(404).json({
+				code: "W0029",
+				message:
+					"Multi-signature wallet not found, or you aren't one of its co-owners",
+			});
+		}
+
+		// Make sure the recipient or new owner exists
+		// now, rather than once approved
+		let actionFields: any = {};
+		if (req.body.action === "payment") {
+			const recipient = await wallets.findOne(
+				recipientFilter(req.body.recipient),
+				{ projection: { _id: 1 } }
+			);
+			if (!recipient) {
+				return res.status(404).json({
+					code: "W0003",
+					message: "The recipient couldn't be found",
+				});
+			}
+			actionFields = {
+				recipient: normalizeRecipient(req.body.recipient),
+				recipientId: recipient._id,
+				assets: req.body.assets,
+			};
+		} else if (req.body.action === "owner.change") {
+			const newOwner = await wallets.findOne(
+				{ "user.username": req.body.owner },
+				{ projection: { _id: 1 } }
+			);
+			if (!newOwner) {
+				return res.status(404).json({
+					code: "U0001",
+					message: "User not found",
+				});
+			}
+			actionFields = {
+				action: req.body.action,
+				owner: { walletId: newOwner._id, username: req.body.owner },
+			};
+		} else if (req.body.action === "multisig.update") {
+			actionFields = {
+				action: req.body.action,
+				multisig: {
+					coOwners: [...req.body.coOwners].sort(),
+					threshold: req.body.threshold,
+				},
+			};
+		} else {
+			actionFields = { action: req.body.action };
+		}
+
+		// Proposing it counts as approving it, and
+		// they have a week to approve by default
+		const now = Date.now();
+		let proposal: any = {
+			_id: new ObjectId(),
+			walletId: new ObjectId(req.wallet._id),
+			address: req.wallet.address,
+			status: "pending",
+			proposer: req.session.address,
+			...actionFields,
+			ownerIds: wallet.multisig.ownerIds,
+			threshold: wallet.multisig.threshold,
+			approvals: [
+				{
+					walletId: new ObjectId(req.session.walletId),
+					username: req.session.address,
+					at: now,
+				},
+			],
+			rejections: [],
+			expiresAt: req.body.expiresAt
+				? (req.body.expiresAt as Date).getTime()
+				: now + 1000 * 60 * 60 * 24 * 7,
+			createdAt: now,
+		};
+		if (req.body.memo) {
+			proposal.memo = req.body.memo;
+		}
+		await proposals.insertOne(proposal);
+
+		// A threshold of one executes, or approves, straight away
+		const io = req.app.get("io") as Server;
+		const executedProposal = await executeProposal(proposal._id, io);
+		if (executedProposal) {
+			proposal = executedProposal;
+		} else {
+			await notifyCoOwners(proposal, io);
+		}
+
+		res.status(201).json({
+			message: !executedProposal
+				? "Proposal created, waiting for the co-owners to approve it"
+				: proposal.status === "approved"
+				? "Proposal created and approved, the owner can now make the change"
+				: "Proposal created and executed",
+			...toProposalResponse(proposal),
+		});
+	}
+);
+
+router.get(
+	"/:address/proposals",
+	isLoggedIn(true),
+	isCoOwner(),
+	async (req: Request, res: Response) => {
+		// Validate the query
+		try {
+			req.query = await Joi.object({
+				status: Joi.string().valid(
+					"pending",
+					"approved",
+					"executing",
+					"executed",
+					"failed",
+					"rejected",
+					"expired",
+					"cancelled"
+				),
+				limit: Joi.number().integer().min(1).max(100).default(25),
+				cursor: Joi.string().length(24).hex(),
+			}).validateAsync(req.query);
+		} catch (error) {
+			return res.status(400).json({
+				code: "G0002",
+				message: "Invalid URL query",
+			});
+		}
+
+		const proposals: Collection = getMongoCollection("proposals");
+
+		let query: any = { walletId: new ObjectId(req.wallet._id) };
+		if (req.query.status) {
+			query.status = req.query.status;
+		}
+		if (req.query.cursor) {
+			query._id = { $lt: new ObjectId(req.query.cursor as string) };
+		}
+
+		// Get one extra to know if there is a next page
+		const limit = Number(req.query.limit);
+		const proposalDocuments = await proposals
+			.find(query)
+			.sort({ _id: -1 })
+			.limit(limit + 1)
+			.toArray();
+
+		let cursor: string | null = null;
+		if (proposalDocuments.length > limit) {
+			proposalDocuments.pop();
+			cursor =
+				proposalDocuments[proposalDocuments.length - 1]._id.toString();
+		}
+
+		return res.status(200).json({
+			proposals: proposalDocuments.map(toProposalResponse),
+			cursor,
+		});
+	}
+);
+
+router.get(
+	"/:address/proposals/:id",
+	isLoggedIn(true),
+	isCoOwner(),
+	async (req: Request, res: Response) => {
+		// Validate the id param
+		try {
+			req.params.id = await Joi.string()
+				.required()
+				.length(24)
+				.hex()
+				.validateAsync(req.params.id);
+		} catch (error) {
+			return res.status(400).json({
+				code: "W0030",
+				message: "Invalid proposal id",
+			});
+		}
+
+		const proposals: Collection = getMongoCollection("proposals");
+
+		const proposal = await proposals.findOne({
+			_id: new ObjectId(req.params.id),
+			walletId: new ObjectId(req.wallet._id),
+		});
+		if (!proposal) {
+			return res.status(404).json({
+				code: "W0031",
+				message: "Proposal not found",
+			});
+		}
+
+		return res.status(200).json(toProposalResponse(proposal));
+	}
+);
+
+router.post(
+	"/:address/proposals/:id/approve",
+	isLoggedIn(true),
+	isCoOwner(),
+	async (req: Request, res: Response) => {
+		// Validate the id param
+		try {
+			req.params.id = await Joi.string()
+				.required()
+				.length(24)
+				.hex()
+				.validateAsync(req.params.id);
+		} catch (error) {
+			return res.status(400).json({
+				code: "W0030",
+				message: "Invalid proposal id",
+			});
+		}
+
+		const proposal = await voteOnProposal(
+			new ObjectId(req.params.id),
+			{
+				walletId: new ObjectId(req.session.walletId),
+				username: req.session.address,
+			},
+			"approve",
+			req.app.get("io") as Server
+		);
+		if (!proposal) {
+			return proposalVoteError(req, res);
+		}
+
+		res.status(200).json({
+			message: "Approval recorded",
+			...toProposalResponse(proposal),
+		});
+	}
+);
+
+router.post(
+	"/:address/proposals/:id/reject",
+	isLoggedIn(true),
+	isCoOwner(),
+	async (req: Request, res: Response) => {
+		// Validate the id param
+		try {
+			req.params.id = await Joi.string()
+				.required()
+				.length(24)
+				.hex()
+				.validateAsync(req.params.id);
+		} catch (error) {
+			return res.status(400).json({
+				code: "W0030",
+				message: "Invalid proposal id",
+			});
+		}
+
+		const proposal = await voteOnProposal(
+			new ObjectId(req.params.id),
+			{
+				walletId: new ObjectId(req.session.walletId),
+				username: req.session.address,
+			},
+			"reject",
+			req.app.get("io") as Server
+		);
+		if (!proposal) {
+			return proposalVoteError(req, res);
+		}
+
+		res.status(200).json({
+			message: "Rejection recorded",
+			...toProposalResponse(proposal),
 		});
 	}
 );
 
 router.delete(
 	"/:address",
-	validWalletKey(),
+	validWalletKey("wallet:manage"),
 	isLoggedIn(true),
 	async (req: Request, res: Response) => {
 		if (req.wallet.ownerId !== req.session.walletId) {
@@ -554,6 +1864,29 @@ router.delete(
 				message: "Only the owner of the wallet can do this",
 			});
 		}
+		// Held escrows would lose their assets with the wallet
+		const escrows: Collection = getMongoCollection("escrows");
+		const heldEscrow = await escrows.findOne(
+			{
+				status: "held",
+				$or: [
+					{ senderId: new ObjectId(req.wallet._id) },
+					{ recipientId: new ObjectId(req.wallet._id) },
+				],
+			},
+			{ projection: { _id: 1 } }
+		);
+		if (heldEscrow) {
+			return res.status(400).json({
+				code: "W0018",
+				message: "Wallet is still party to held escrows",
+			});
+		}
+
+		if (!(await multisigApproved(req, res, "wallet.delete"))) {
+			return;
+		}
+
 		const wallets: Collection = getMongoCollection("wallets");
 		const session = getMongoSession();
 
@@ -564,6 +1897,7 @@ router.delete(
 		// To store the assets in the wallet to return
 		// to the requester
 		let walletResult: any;
+		let ledgerTransaction: TransactionDocument | undefined;
 
 		// Take assets from wallet, put into users account
 		await session.withTransaction(async () => {
@@ -595,6 +1929,22 @@ router.delete(
 				userFound = false;
 				return await session.abortTransaction();
 			}
+
+			// Record the returned assets in the ledger
+			ledgerTransaction = await recordTransaction(
+				"transfer",
+				{
+					walletId: new ObjectId(req.wallet._id),
+					name: `#${req.wallet.address}`,
+				},
+				{
+					walletId: new ObjectId(req.session.walletId),
+					name: req.session.address,
+				},
+				walletResult.value.assets,
+				session,
+				"Wallet deleted, these assets returned"
+			);
 		});
 
 		await session.endSession();
@@ -613,27 +1963,32 @@ router.delete(
 
 		// Cache transaction for user and
 		// delete old wallet txs
+		await cacheTransaction(
+			req.session.walletId,
+			toWalletTransaction(
+				ledgerTransaction as TransactionDocument,
+				req.session.walletId
+			)
+		);
 		const redis = getRedisConnection();
+		await redis.del(`wallets:${req.wallet._id}.transactions`);
 
-		const transaction = {
-			type: "receive",
-			interactant: `#${req.wallet.address}`,
-			memo: "Wallet deleted, these assets returned",
-			assets: walletResult.value.assets,
-		};
-		await redis
-			.multi()
-			.lPush(
-				`wallets:${req.session.walletId}.transactions`,
-				JSON.stringify(transaction)
-			)
-			.lTrim(`wallets:${req.session.walletId}.transactions`, 0, 9)
-			.expire(
-				`wallets:${req.session.walletId}.transactions`,
-				60 * 60 * 24 * 5
-			)
-			.del(`wallets:${req.wallet._id}.transactions`)
-			.exec();
+		// The wallet is gone, so deliver to the webhook it had
+		await notifyWebhook(
+			req.wallet._id,
+			"wallet.deleted",
+			{
+				address: req.wallet.address,
+				owner: req.session.address,
+				assets: walletResult.value.assets,
+				transactionId: (ledgerTransaction?._id as ObjectId).toString(),
+				deletedAt: Date.now(),
+			},
+			walletResult.value
+		);
+
+		// Log out anyone still using its key
+		await revokeSessions(req.wallet._id.toString());
 
 		// TODO: Send over socket
 
@@ -17,6 +17,14 @@ import {
 import axios from "axios";
 import { Server } from "socket.io";
 import { validateAssets } from "../tools/assetValidation";
+import {
+	cacheTransaction,
+	recordTransaction,
+	toWalletTransaction,
+	TransactionDocument,
+} from "../tools/transactions";
+import { normalizeRecipient, recipientFilter } from "../tools/payments";
+import { notifyWebhook } from "../tools/webhooks";
 
 const router = express.Router();
 
@@ -177,6 +185,7 @@ router.patch(
 		let hasFunds = true;
 		let availableCollateral = true;
 		let walletFound = true;
+		let ledgerTransaction: TransactionDocument | undefined;
 
 		const session = getMongoSession();
 		await session.withTransaction(async () => {
@@ -252,6 +261,20 @@ router.patch(
 					return await session.abortTransaction();
 				}
 			}
+
+			// Record it in the ledger
+			const user = {
+				walletId: new ObjectId(req.session.walletId),
+				name: req.session.address,
+			};
+			const collateral = { name: "<warehouse.collateral>" };
+			ledgerTransaction = await recordTransaction(
+				"transfer",
+				addingCollateral ? user : collateral,
+				addingCollateral ? collateral : user,
+				{ stelo: Math.abs(req.body.balance) },
+				session
+			);
 		});
 
 		await session.endSession();
@@ -274,30 +297,18 @@ router.patch(
 		}
 
 		// Cache transaction for sender
-		const redis = getRedisConnection();
-		let transaction: any = {
-			type: "send",
-			interactant: "<warehouse.collateral>",
-			assets: { stelo: Math.abs(req.body.balance) },
-		};
-		if (!addingCollateral) {
-			transaction.type = "receive";
-		}
-		await redis
-			.multi()
-			.lPush(
-				`wallets:${req.session.walletId}.transactions`,
-				JSON.stringify(transaction)
+		await cacheTransaction(
+			req.session.walletId,
+			toWalletTransaction(
+				ledgerTransaction as TransactionDocument,
+				req.session.walletId
 			)
-			.lTrim(`wallets:${req.session.walletId}.transactions`, 0, 9)
-			.expire(
-				`wallets:${req.session.walletId}.transactions`,
-				60 * 60 * 24 * 5
-			)
-			.exec();
+		);
 
 		return res.status(200).json({
 			message: "Collateral adjusted",
+			id: (ledgerTransaction?._id as ObjectId).toString(),
+			createdAt: ledgerTransaction?.createdAt,
 		});
 	}
 );
@@ -532,6 +543,8 @@ router.post(
 				message: "Invalid JSON body",
 			});
 		}
+		// Can be a username, or `#address` for smart wallets
+		req.body.depositor = normalizeRecipient(req.body.depositor);
 
 		// Validate the req.body.assets and get result
 		const validAssetsResult = await validateAssets(req.body.assets, req);
@@ -558,6 +571,7 @@ router.post(
 		let recipientFound = true;
 		let collateralAvailable = true;
 		let recipientId: string | undefined;
+		let ledgerTransaction: TransactionDocument | undefined;
 		await session.withTransaction(async () => {
 			// Create queryUpdate to add assets into warehouse
 			let queryUpdate: any = {
@@ -585,7 +599,7 @@ router.post(
 
 			// Now add those items into the players wallet also
 			const depositorResult = await wallets.findOneAndUpdate(
-				{ "user.username": req.body.depositor },
+				recipientFilter(req.body.depositor),
 				queryUpdate,
 				{
 					session,
@@ -599,6 +613,15 @@ router.post(
 			} else {
 				recipientId = depositorResult.value._id;
 			}
+
+			// Record it in the ledger
+			ledgerTransaction = await recordTransaction(
+				"deposit",
+				{ name: `<warehouse.${req.warehouse.name}>` },
+				{ walletId: new ObjectId(recipientId), name: req.body.depositor },
+				req.body.assets,
+				session
+			);
 		});
 
 		await session.endSession();
@@ -616,30 +639,28 @@ router.post(
 		}
 
 		// Cache transaction for receiver
-		const redis = getRedisConnection();
-		let transaction: any = {
-			type: "deposit",
-			interactant: `<warehouse.${req.warehouse.name}>`,
-			assets: req.body.assets,
-		};
-		await redis
-			.multi()
-			.lPush(
-				`wallets:${recipientId}.transactions`,
-				JSON.stringify(transaction)
-			)
-			.lTrim(`wallets:${recipientId}.transactions`, 0, 9)
-			.expire(`wallets:${recipientId}.transactions`, 60 * 60 * 24 * 5)
-			.exec();
+		const transaction = toWalletTransaction(
+			ledgerTransaction as TransactionDocument,
+			recipientId as string
+		);
+		await cacheTransaction(recipientId as string, transaction);
 
-		// Post to socket room
+		// Post to socket room, and smart wallet's webhook
 		(req.app.get("io") as Server)
 			.to(req.body.depositor)
 			.emit("transaction", transaction);
+		await notifyWebhook(recipientId as string, "deposit", {
+			id: transaction.id,
+			warehouse: req.warehouse.name,
+			assets: req.body.assets,
+			createdAt: transaction.createdAt,
+		});
 
 		return res.status(200).json({
 			message:
 				"Deposit handled, assets assigned to warehouse and credited to user",
+			id: (ledgerTransaction?._id as ObjectId).toString(),
+			createdAt: ledgerTransaction?.createdAt,
 			depositor: req.body.depositor,
 			assets: req.body.assets,
 		});
@@ -691,6 +712,7 @@ router.delete(
 		let userHasFunds = true;
 		let warehouseHasFunds = true;
 		let withdrawerId: string | undefined;
+		let ledgerTransaction: TransactionDocument | undefined;
 		await session.withTransaction(async () => {
 			// Create queryUpdate to withdraw the needed assets
 			// from user and warehouse, and queryFilter to
@@ -741,6 +763,15 @@ router.delete(
 			} else {
 				withdrawerId = withdrawerResult.value._id;
 			}
+
+			// Record it in the ledger
+			ledgerTransaction = await recordTransaction(
+				"withdrawal",
+				{ walletId: new ObjectId(withdrawerId), name: req.body.withdrawer },
+				{ name: `<warehouse.${req.warehouse.name}>` },
+				req.body.assets,
+				session
+			);
 		});
 
 		await session.endSession();
@@ -760,21 +791,11 @@ router.delete(
 		}
 
 		// Cache transaction for receiver
-		const redis = getRedisConnection();
-		let transaction: any = {
-			type: "withdrawal",
-			interactant: `<warehouse.${req.warehouse.name}>`,
-			assets: req.body.assets,
-		};
-		await redis
-			.multi()
-			.lPush(
-				`wallets:${withdrawerId}.transactions`,
-				JSON.stringify(transaction)
-			)
-			.lTrim(`wallets:${withdrawerId}.transactions`, 0, 9)
-			.expire(`wallets:${withdrawerId}.transactions`, 60 * 60 * 24 * 5)
-			.exec();
+		const transaction = toWalletTransaction(
+			ledgerTransaction as TransactionDocument,
+			withdrawerId as string
+		);
+		await cacheTransaction(withdrawerId as string, transaction);
 
 		// Post to socket room
 		(req.app.get("io") as Server)
@@ -784,6 +805,8 @@ router.delete(
 		return res.status(200).json({
 			message:
 				"Withdrawal handled, assets removed from warehouse and user wallet",
+			id: (ledgerTransaction?._id as ObjectId).toString(),
+			createdAt: ledgerTransaction?.createdAt,
 			withdrawer: req.body.withdrawer,
 			assets: req.body.assets,
 		});
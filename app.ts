@@ -11,10 +11,15 @@ import {
 	getLegacyRedisConnection,
 	getRedisConnection,
 } from "./tools/db";
+import { runDueSchedules } from "./tools/schedules";
+import { refundExpiredEscrows } from "./tools/escrows";
+import { deliverPendingWebhooks } from "./tools/webhooks";
+import { expireProposals } from "./tools/proposals";
 import express, { Application, NextFunction, Request, Response } from "express";
 
 // Importing routes
 import { router as user } from "./api/user";
+import { router as admins } from "./api/admins";
 import { router as users } from "./api/users";
 import { router as wallet } from "./api/wallet";
 import { router as wallets } from "./api/wallets";
@@ -99,6 +104,7 @@ connectToDatabases()
 
 		// Route Middlewares
 		app.use("/users", generalLimiter, users);
+		app.use("/admins", generalLimiter, admins);
 		app.use("/user", generalLimiter, isLoggedIn(true), user);
 		app.use("/wallets", wallets);
 		app.use("/wallet", generalLimiter, isLoggedIn(), wallet);
@@ -130,6 +136,26 @@ connectToDatabases()
 			});
 		});
 
+		// Run the due scheduled payments every minute
+		setInterval(() => {
+			runDueSchedules(io).catch((error) => console.error(error));
+		}, 1000 * 60);
+
+		// Refund the expired escrows every minute
+		setInterval(() => {
+			refundExpiredEscrows(io).catch((error) => console.error(error));
+		}, 1000 * 60);
+
+		// Expire multi-signature proposals every minute
+		setInterval(() => {
+			expireProposals(io).catch((error) => console.error(error));
+		}, 1000 * 60);
+
+		// Retry the queued webhook deliveries every 30 seconds
+		setInterval(() => {
+			deliverPendingWebhooks().catch((error) => console.error(error));
+		}, 1000 * 30);
+
 		// All is good, so start the app
 		const APP_PORT: any = process.env.PORT || 5000;
 		httpServer.listen(APP_PORT, () => {
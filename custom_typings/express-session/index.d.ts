@@ -7,5 +7,9 @@ declare module "express-session" {
 		warehouseAccountId: string | undefined;
 		address: string;
 		createdAt: number;
+		sessionId: string | undefined;
+		ip: string | undefined;
+		userAgent: string | undefined;
+		lastSeenAt: number | undefined;
 	}
 }
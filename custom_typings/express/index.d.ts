@@ -4,6 +4,13 @@ declare namespace Express {
 			_id: string;
 			address: string;
 			ownerId: string;
+			keyId?: string;
+		};
+		admin: {
+			_id?: string;
+			name: string;
+			roles: string[];
+			isMasterKey: boolean;
 		};
 		warehouse: {
 			name: string,
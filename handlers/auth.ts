@@ -3,6 +3,9 @@ import Joi from "joi";
 import bcrypt from "bcryptjs";
 import { getMongoCollection } from "../tools/db";
 import { Collection, ObjectId } from "mongodb";
+import { parseNamedKey, WalletKeyScope } from "../tools/walletKeys";
+import { adminCan, AdminPermission } from "../tools/admins";
+import { touchSession, untrackSession } from "../tools/sessions";
 
 export function isGuest() {
 	return async function (req: Request, res: Response, next: NextFunction) {
@@ -27,8 +30,13 @@ export function isLoggedIn(
 			const SESSION_ABSOLUTE_TIMEOUT = 1000 * 60 * 60 * 6;
 
 			// If the cookie is past its absolute timeout then log out user
-			// and block request
-			if (now > req.session.createdAt + SESSION_ABSOLUTE_TIMEOUT) {
+			// and block request. Sessions from before they were indexed
+			// can't be listed or revoked, so they're logged out too
+			if (
+				now > req.session.createdAt + SESSION_ABSOLUTE_TIMEOUT ||
+				!req.session.sessionId
+			) {
+				await untrackSession(req);
 				await new Promise<void>((resolve, reject) => {
 					req.session.destroy((err: Error) => {
 						if (err) reject(err);
@@ -59,6 +67,7 @@ export function isLoggedIn(
 					message: "Must have a warehouse account",
 				});
 			}
+			touchSession(req);
 			return next();
 		} else {
 			return res.status(400).json({
@@ -69,22 +78,63 @@ export function isLoggedIn(
 	};
 }
 
-export function masterKey() {
+// Accepts an admin's token as `<id>.<secret>`, or the API_MASTER_KEY
+// which is kept to bootstrap the first admins and can do everything.
+// Without a permission any admin can use the route
+export function hasPermission(permission?: AdminPermission) {
 	return async function (req: Request, res: Response, next: NextFunction) {
 		const key: string | undefined = req.header("Authorization");
 		const API_MASTER_KEY: any = process.env.API_MASTER_KEY;
-		if (API_MASTER_KEY === key) {
+		if (API_MASTER_KEY && API_MASTER_KEY === key) {
+			req.admin = { name: "API_MASTER_KEY", roles: [], isMasterKey: true };
 			return next();
-		} else {
+		}
+
+		// Find the admin and check their token
+		const token = key ? parseNamedKey(key) : null;
+		const admins: Collection = getMongoCollection("admins");
+		let admin: any = null;
+		if (token) {
+			admin = await admins.findOne(
+				{ _id: new ObjectId(token.id) },
+				{ projection: { name: 1, roles: 1, token: 1 } }
+			);
+		}
+		if (
+			!token ||
+			!admin ||
+			!(await bcrypt.compare(token.secret, admin.token))
+		) {
 			return res.status(403).json({
 				code: "A0005",
 				message: "Not permitted to use this route",
 			});
 		}
+
+		req.admin = {
+			_id: admin._id.toString(),
+			name: admin.name,
+			roles: admin.roles,
+			isMasterKey: false,
+		};
+		if (permission && !adminCan(req.admin, permission)) {
+			return res.status(403).json({
+				code: "A0015",
+				message: `Admin doesn't have the ${permission} permission`,
+			});
+		}
+
+		await admins.updateOne(
+			{ _id: admin._id },
+			{ $set: { lastUsedAt: Date.now() } }
+		);
+		return next();
 	};
 }
 
-export function validWalletKey() {
+// Accepts the wallet's primary key, which has every scope, or a named
+// key as `<id>.<secret>` which must have the scope the route needs
+export function validWalletKey(scope?: WalletKeyScope) {
 	return async function (req: Request, res: Response, next: NextFunction) {
 		// Validate address param
 		try {
@@ -107,9 +157,12 @@ export function validWalletKey() {
 
 		try {
 			// Validate the key
-			await Joi.string()
+			await Joi.alternatives()
+				.try(
+					Joi.string().pattern(/^[a-zA-Z0-9]{24}$/),
+					Joi.string().pattern(/^[a-f0-9]{24}\.[a-zA-Z0-9]{24}$/)
+				)
 				.required()
-				.pattern(/^[a-zA-Z0-9]{24}$/)
 				.validateAsync(walletKey);
 		} catch (error) {
 			return res.status(400).json({
@@ -119,10 +172,19 @@ export function validWalletKey() {
 		}
 
 		const wallets = getMongoCollection("wallets");
+		const namedKey = parseNamedKey(walletKey as string);
 
 		let wallet = await wallets.findOne(
 			{ address: req.params.address },
-			{ projection: { key: 1, address: 1, ownerId: 1 } }
+			{
+				projection: namedKey
+					? {
+							address: 1,
+							ownerId: 1,
+							keys: { $elemMatch: { _id: new ObjectId(namedKey.id) } },
+					  }
+					: { key: 1, address: 1, ownerId: 1 },
+			}
 		);
 
 		if (!wallet) {
@@ -132,24 +194,94 @@ export function validWalletKey() {
 			});
 		}
 
-		// Checking if password is valid
-		const validKey: boolean = await bcrypt.compare(
-			walletKey as string,
-			wallet.key
-		);
+		// Checking if the key is valid
+		const keyDocument = namedKey ? wallet.keys?.[0] : undefined;
+		const validKey: boolean = namedKey
+			? !!keyDocument &&
+			  (await bcrypt.compare(namedKey.secret, keyDocument.key))
+			: await bcrypt.compare(walletKey as string, wallet.key);
 		if (!validKey) {
 			return res.status(400).json({
 				code: "A0007",
 				message: "Invalid wallet key",
 			});
-		} else {
-			req.wallet = {
-				_id: wallet._id.toString(),
-				address: wallet.address,
-				ownerId: wallet.ownerId.toString(),
-			};
-			return next();
 		}
+
+		// Named keys can expire, and only have the scopes they were given
+		if (keyDocument?.expiresAt && keyDocument.expiresAt <= Date.now()) {
+			return res.status(400).json({
+				code: "A0013",
+				message: "Wallet key has expired",
+			});
+		} else if (keyDocument && scope && !keyDocument.scopes.includes(scope)) {
+			return res.status(403).json({
+				code: "A0014",
+				message: `Wallet key doesn't have the ${scope} scope`,
+			});
+		}
+
+		if (keyDocument) {
+			await wallets.updateOne(
+				{ _id: wallet._id, "keys._id": keyDocument._id },
+				{ $set: { "keys.$.lastUsedAt": Date.now() } }
+			);
+		}
+
+		req.wallet = {
+			_id: wallet._id.toString(),
+			address: wallet.address,
+			ownerId: wallet.ownerId.toString(),
+		};
+		if (keyDocument) {
+			req.wallet.keyId = keyDocument._id.toString();
+		}
+		return next();
+	};
+}
+
+// For multi-signature wallets, where the co-owners act
+// through their user sessions rather than a wallet key
+export function isCoOwner() {
+	return async function (req: Request, res: Response, next: NextFunction) {
+		// Validate address param
+		try {
+			req.params.address = await Joi.string()
+				.required()
+				.lowercase()
+				.min(3)
+				.max(24)
+				.pattern(/^[a-zA-Z]{3,}$/)
+				.validateAsync(req.params.address);
+		} catch (error) {
+			return res.status(400).json({
+				code: "A0006",
+				message: "Invalid address",
+			});
+		}
+
+		const wallets = getMongoCollection("wallets");
+
+		const wallet = await wallets.findOne(
+			{
+				address: req.params.address,
+				"multisig.ownerIds": new ObjectId(req.session.walletId),
+			},
+			{ projection: { address: 1, ownerId: 1 } }
+		);
+		if (!wallet) {
+			return res.status(404).json({
+				code: "W0029",
+				message:
+					"Multi-signature wallet not found, or you aren't one of its co-owners",
+			});
+		}
+
+		req.wallet = {
+			_id: wallet._id.toString(),
+			address: wallet.address,
+			ownerId: wallet.ownerId.toString(),
+		};
+		return next();
 	};
 }
 
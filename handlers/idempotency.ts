@@ -0,0 +1,128 @@
+import { Request, Response, NextFunction } from "express";
+import Joi from "joi";
+import { createHash } from "crypto";
+import { getRedisConnection } from "../tools/db";
+
+// How long the processing lock lasts without being refreshed
+const LOCK_SECONDS = 60;
+
+// JSON with object keys sorted, so the same body always
+// gets the same fingerprint whatever order it was sent in
+function canonicalJson(value: any): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(canonicalJson).join(",")}]`;
+	} else if (value !== null && typeof value === "object") {
+		const entries = Object.keys(value)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+		return `{${entries.join(",")}}`;
+	}
+	return JSON.stringify(value) ?? "null";
+}
+
+export function idempotent() {
+	return async function (req: Request, res: Response, next: NextFunction) {
+		const idempotencyKey: string | undefined = req.header("Idempotency-Key");
+
+		// The header is optional, without it the request just runs
+		if (idempotencyKey === undefined) {
+			return next();
+		}
+
+		try {
+			await Joi.string()
+				.required()
+				.max(64)
+				.pattern(/^[a-zA-Z0-9_-]+$/)
+				.validateAsync(idempotencyKey);
+		} catch (error) {
+			return res.status(400).json({
+				code: "I0000",
+				message: "Invalid idempotency key",
+			});
+		}
+
+		// Keys are scoped to the wallet making the request, and
+		// the fingerprint makes sure a reused key is the same request
+		const walletId = req.wallet?._id ?? req.session.walletId;
+		const redisKey = `idempotency:${walletId}:${idempotencyKey}`;
+		const fingerprint = createHash("sha256")
+			.update(`${req.method} ${req.originalUrl} ${canonicalJson(req.body)}`)
+			.digest("hex");
+
+		// Lock the key while processing, short expiry
+		// incase the request never finishes
+		const redis = getRedisConnection();
+		const locked = await redis.set(
+			redisKey,
+			JSON.stringify({ fingerprint, processing: true }),
+			{ NX: true, EX: LOCK_SECONDS }
+		);
+
+		if (!locked) {
+			const stored = await redis.get(redisKey);
+
+			// Expired between the two calls, so have them retry
+			if (!stored) {
+				return res.status(409).json({
+					code: "I0002",
+					message:
+						"A request with this idempotency key is still processing",
+				});
+			}
+
+			const storedResponse = JSON.parse(stored);
+			if (storedResponse.fingerprint !== fingerprint) {
+				return res.status(422).json({
+					code: "I0001",
+					message:
+						"Idempotency key was already used with a different request",
+				});
+			} else if (storedResponse.processing) {
+				return res.status(409).json({
+					code: "I0002",
+					message:
+						"A request with this idempotency key is still processing",
+				});
+			}
+
+			// Same request, so replay the original response
+			res.set("Idempotent-Replayed", "true");
+			return res.status(storedResponse.status).json(storedResponse.body);
+		}
+
+		// Keep the lock for as long as the request runs, so a slow one
+		// (like a batch waiting on webhooks) can't be started again
+		const refresh = setInterval(() => {
+			redis
+				.expire(redisKey, LOCK_SECONDS)
+				.catch((error) => console.error(error));
+		}, (LOCK_SECONDS * 1000) / 3);
+		res.on("close", () => clearInterval(refresh));
+
+		// Store the response when it gets sent if it succeeded, otherwise
+		// free the key so a fixed or later request can be retried with it
+		const json = res.json.bind(res);
+		res.json = (body: any) => {
+			clearInterval(refresh);
+			if (res.statusCode < 200 || res.statusCode >= 300) {
+				redis.del(redisKey).catch((error) => console.error(error));
+			} else {
+				redis
+					.set(
+						redisKey,
+						JSON.stringify({
+							fingerprint,
+							status: res.statusCode,
+							body,
+						}),
+						{ EX: 60 * 60 * 24 }
+					)
+					.catch((error) => console.error(error));
+			}
+			return json(body);
+		};
+
+		return next();
+	};
+}
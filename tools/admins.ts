@@ -0,0 +1,94 @@
+import { Request } from "express";
+import { Collection, ObjectId } from "mongodb";
+import { getMongoCollection } from "./db";
+
+// What each admin role is allowed to do
+export const adminRoles = {
+	admin: ["admins:manage", "audit:read", "logins:unlock", "passwords:reset"],
+	registrar: [
+		"registrations:read",
+		"registrations:approve",
+		"registrations:reject",
+		"profiles:verify",
+		"logins:unlock",
+		"passwords:reset",
+	],
+	treasurer: [
+		"registrations:read",
+		"registrations:approve",
+		"distributions:send",
+	],
+	auditor: ["registrations:read", "audit:read"],
+};
+
+export type AdminRole = keyof typeof adminRoles;
+export type AdminPermission = (typeof adminRoles)[AdminRole][number];
+
+/**
+ * Whether an admin's roles give them a permission. The `API_MASTER_KEY`
+ * is kept to bootstrap the first admins, and has every permission.
+ * @param admin The admin set on `req.admin`.
+ * @param permission The permission to check for.
+ */
+export function adminCan(
+	admin: Request["admin"],
+	permission: AdminPermission
+): boolean {
+	if (admin.isMasterKey) {
+		return true;
+	}
+
+	return admin.roles.some((role) =>
+		(adminRoles[role as AdminRole] as readonly string[]).includes(permission)
+	);
+}
+
+/**
+ * Records an admin action in the audit log.
+ * @param req The routes Request variable, with `req.admin` set.
+ * @param action What was done, e.g. "registration.approve".
+ * @param target Who or what it was done to.
+ * @param details Anything else worth knowing about it.
+ */
+export async function recordAdminAction(
+	req: Request,
+	action: string,
+	target: string,
+	details?: any
+): Promise<void> {
+	const adminActions: Collection = getMongoCollection("adminActions");
+
+	let adminAction: any = {
+		admin: req.admin.name,
+		action,
+		target,
+		at: Date.now(),
+	};
+	if (req.admin._id) {
+		adminAction.adminId = new ObjectId(req.admin._id);
+	}
+	if (details) {
+		adminAction.details = details;
+	}
+
+	await adminActions.insertOne(adminAction);
+}
+
+/**
+ * Turns an admin document into what is returned, never including the hash.
+ * @param admin The admin document.
+ */
+export function toAdminResponse(admin: any): any {
+	let response: any = {
+		id: (admin._id as ObjectId).toString(),
+		name: admin.name,
+		roles: admin.roles,
+		createdAt: admin.createdAt,
+		createdBy: admin.createdBy,
+	};
+	if (admin.lastUsedAt) {
+		response.lastUsedAt = admin.lastUsedAt;
+	}
+
+	return response;
+}
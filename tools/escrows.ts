@@ -0,0 +1,281 @@
+import { Collection, ObjectId } from "mongodb";
+import { Server } from "socket.io";
+import { getMongoCollection, getMongoSession } from "./db";
+import { checkSpendingLimits, LimitViolation } from "./limits";
+import {
+	PaymentStatus,
+	recipientFilter,
+	requiresProposal,
+	walletName,
+} from "./payments";
+import {
+	cacheTransaction,
+	recordTransaction,
+	toWalletTransaction,
+	TransactionDocument,
+} from "./transactions";
+
+export interface EscrowResult {
+	status: PaymentStatus;
+	/** Only set when the status is `LimitExceeded` */
+	limit?: LimitViolation;
+	escrow?: any;
+}
+
+/**
+ * Creates an escrow, moving the assets out of the sender's wallet and
+ * into their `heldAssets` until it is released or refunded.
+ * @param senderId The wallet creating the escrow.
+ * @param sender Username, or `#address` for smart wallets.
+ * @param recipient Username, or `#address` of who it will be released to.
+ * @param assets Object with asset names as keys, and their quantity as their value.
+ * @param expiresAt When it gets refunded automatically.
+ * @param io The socket server, `req.app.get("io")`.
+ * @param memo Optional memo attached by the sender.
+ */
+export async function createEscrow(
+	senderId: string,
+	sender: string,
+	recipient: string,
+	assets: any,
+	expiresAt: number,
+	io: Server,
+	memo?: string
+): Promise<EscrowResult> {
+	const wallets: Collection = getMongoCollection("wallets");
+	const escrows: Collection = getMongoCollection("escrows");
+
+	const recipientWallet = await wallets.findOne(recipientFilter(recipient), {
+		projection: { "user.username": 1, address: 1 },
+	});
+	if (!recipientWallet) {
+		return { status: PaymentStatus.RecipientNotFound };
+	}
+
+	let escrow: any = {
+		_id: new ObjectId(),
+		senderId: new ObjectId(senderId),
+		sender,
+		recipientId: recipientWallet._id,
+		recipient: walletName(recipientWallet),
+		status: "held",
+		assets,
+		expiresAt,
+		createdAt: Date.now(),
+	};
+	if (memo) {
+		escrow.memo = memo;
+	}
+
+	let result: EscrowResult = { status: PaymentStatus.Success };
+	let ledgerTransaction: TransactionDocument | undefined;
+
+	const session = getMongoSession();
+	await session.withTransaction(async () => {
+		if (await requiresProposal(senderId, session)) {
+			result.status = PaymentStatus.ProposalRequired;
+			return await session.abortTransaction();
+		}
+
+		const limit = await checkSpendingLimits(
+			senderId,
+			undefined,
+			[{ recipient: escrow.recipient, assets }],
+			session
+		);
+		if (limit) {
+			result.status = PaymentStatus.LimitExceeded;
+			result.limit = limit;
+			return await session.abortTransaction();
+		}
+
+		// Move the assets into held, filtering on them having enough
+		let queryFilter: any = { _id: new ObjectId(senderId) };
+		let queryUpdate: any = { $inc: {} };
+		for (const key in assets) {
+			queryFilter[`assets.${key}`] = { $gte: assets[key] };
+			queryUpdate.$inc[`assets.${key}`] = -assets[key];
+			queryUpdate.$inc[`heldAssets.${key}`] = assets[key];
+		}
+
+		const senderResult = await wallets.updateOne(queryFilter, queryUpdate, {
+			session,
+		});
+		if (!senderResult.modifiedCount) {
+			result.status = PaymentStatus.InsufficientFunds;
+			return await session.abortTransaction();
+		}
+
+		await escrows.insertOne(escrow, { session });
+
+		ledgerTransaction = await recordTransaction(
+			"transfer",
+			{ walletId: new ObjectId(senderId), name: sender },
+			{ name: `<escrow.${escrow._id}>` },
+			assets,
+			session,
+			memo
+		);
+	});
+
+	await session.endSession();
+
+	if (result.status !== PaymentStatus.Success) {
+		return result;
+	}
+
+	await cacheTransaction(
+		senderId,
+		toWalletTransaction(ledgerTransaction as TransactionDocument, senderId)
+	);
+
+	result.escrow = escrow;
+	io.to(escrow.sender)
+		.to(escrow.recipient)
+		.emit("escrow", toEscrowResponse(escrow));
+
+	return result;
+}
+
+/**
+ * Settles a held escrow, either releasing the assets to the recipient or
+ * refunding them to the sender. Records it in the ledger and lets both
+ * parties know.
+ * @param query Filter for the escrow, so only the right party can settle it.
+ * @param outcome Whether the assets go to the recipient, or back to the sender.
+ * @param io The socket server.
+ * @returns The settled escrow, or null if no held escrow matched.
+ */
+export async function settleEscrow(
+	query: any,
+	outcome: "released" | "refunded",
+	io: Server
+): Promise<any | null> {
+	const wallets: Collection = getMongoCollection("wallets");
+	const escrows: Collection = getMongoCollection("escrows");
+
+	let escrow: any = null;
+	let ledgerTransaction: TransactionDocument | undefined;
+
+	const session = getMongoSession();
+	await session.withTransaction(async () => {
+		const escrowResult = await escrows.findOneAndUpdate(
+			{ ...query, status: "held" },
+			{ $set: { status: outcome, resolvedAt: Date.now() } },
+			{ session, returnDocument: "after" }
+		);
+		if (!escrowResult.value) {
+			return await session.abortTransaction();
+		}
+		escrow = escrowResult.value;
+
+		// Take it out of held, and put it where it belongs
+		let heldUpdate: any = { $inc: {} };
+		let creditUpdate: any = { $inc: {} };
+		for (const key in escrow.assets) {
+			heldUpdate.$inc[`heldAssets.${key}`] = -escrow.assets[key];
+			creditUpdate.$inc[`assets.${key}`] = escrow.assets[key];
+		}
+		const receiverId =
+			outcome === "released" ? escrow.recipientId : escrow.senderId;
+
+		// Refunds can be done in one update
+		if (outcome === "refunded") {
+			for (const key in creditUpdate.$inc) {
+				heldUpdate.$inc[key] = creditUpdate.$inc[key];
+			}
+		}
+		const senderResult = await wallets.updateOne(
+			{ _id: escrow.senderId },
+			heldUpdate,
+			{ session }
+		);
+		let receiverResult = senderResult;
+		if (outcome === "released") {
+			receiverResult = await wallets.updateOne(
+				{ _id: receiverId },
+				creditUpdate,
+				{ session }
+			);
+		}
+
+		// A party was deleted, so it can't be settled
+		if (!senderResult.matchedCount || !receiverResult.matchedCount) {
+			escrow = null;
+			return await session.abortTransaction();
+		}
+
+		ledgerTransaction = await recordTransaction(
+			"transfer",
+			{ name: `<escrow.${escrow._id}>` },
+			{
+				walletId: receiverId,
+				name: outcome === "released" ? escrow.recipient : escrow.sender,
+			},
+			escrow.assets,
+			session,
+			escrow.memo
+		);
+	});
+
+	await session.endSession();
+
+	if (!escrow) {
+		return null;
+	}
+
+	const transaction = ledgerTransaction as TransactionDocument;
+	const receiverId = (transaction.recipient.walletId as ObjectId).toString();
+	const receiverTransaction = toWalletTransaction(transaction, receiverId);
+	await cacheTransaction(receiverId, receiverTransaction);
+
+	io.to(transaction.recipient.name).emit("transaction", receiverTransaction);
+	io.to(escrow.sender)
+		.to(escrow.recipient)
+		.emit("escrow", toEscrowResponse(escrow));
+
+	return escrow;
+}
+
+/**
+ * Refunds every held escrow that has expired back to its sender.
+ * @param io The socket server.
+ */
+export async function refundExpiredEscrows(io: Server): Promise<void> {
+	const escrows: Collection = getMongoCollection("escrows");
+
+	const expiredEscrows = await escrows
+		.find(
+			{ status: "held", expiresAt: { $lte: Date.now() } },
+			{ projection: { _id: 1 } }
+		)
+		.toArray();
+
+	for (const escrow of expiredEscrows) {
+		await settleEscrow({ _id: escrow._id }, "refunded", io);
+	}
+}
+
+/**
+ * Turns an escrow document into what is returned to either party.
+ * @param escrow The escrow document.
+ */
+export function toEscrowResponse(escrow: any): any {
+	let response: any = {
+		id: (escrow._id as ObjectId).toString(),
+		status: escrow.status,
+		sender: escrow.sender,
+		recipient: escrow.recipient,
+		assets: escrow.assets,
+		expiresAt: escrow.expiresAt,
+		createdAt: escrow.createdAt,
+	};
+	if (escrow.memo) {
+		response.memo = escrow.memo;
+	}
+	if (escrow.resolvedAt) {
+		response.resolvedAt = escrow.resolvedAt;
+	}
+
+	return response;
+}
@@ -0,0 +1,204 @@
+import { Request } from "express";
+import Joi from "joi";
+import { ClientSession, Collection, ObjectId } from "mongodb";
+import { validateAssets } from "./assetValidation";
+import { getMongoCollection } from "./db";
+
+/**
+ * Limits on what can be sent, set by the owner on a wallet or on one of
+ * its named keys. Assets without a limit aren't limited.
+ */
+export interface SpendingLimits {
+	/** Max of each asset in a single payment */
+	perTransaction?: any;
+	/** Max of each asset sent in any rolling 24 hours */
+	daily?: any;
+	/** Only these usernames, or `#address`es, can be paid */
+	recipients?: string[];
+}
+
+export interface LimitViolation {
+	scope: "wallet" | "key";
+	limit: "perTransaction" | "daily" | "recipients";
+	asset?: string;
+	recipient?: string;
+}
+
+export const spendingLimitsSchema = Joi.object({
+	perTransaction: Joi.object().pattern(
+		Joi.string(),
+		Joi.number().integer().min(1)
+	),
+	daily: Joi.object().pattern(Joi.string(), Joi.number().integer().min(1)),
+	recipients: Joi.array().items(Joi.string().trim()).unique().max(100),
+});
+
+/**
+ * Tidies limits before they are saved, dropping empty parts and
+ * lowercasing smart wallet addresses like recipients are.
+ * @param limits Limits that passed `spendingLimitsSchema`.
+ */
+export function normalizeLimits(limits: SpendingLimits): SpendingLimits {
+	let normalized: SpendingLimits = {};
+	if (limits.perTransaction && Object.keys(limits.perTransaction).length) {
+		normalized.perTransaction = limits.perTransaction;
+	}
+	if (limits.daily && Object.keys(limits.daily).length) {
+		normalized.daily = limits.daily;
+	}
+	if (limits.recipients) {
+		normalized.recipients = limits.recipients.map((recipient) =>
+			recipient.charAt(0) === "#" ? recipient.toLowerCase() : recipient
+		);
+	}
+
+	return normalized;
+}
+
+/**
+ * Checks the assets in a set of limits are real assets.
+ * @param limits Limits that passed `spendingLimitsSchema`.
+ * @param expressRequest Must be the routes Request variable.
+ */
+export async function validateLimits(
+	limits: SpendingLimits,
+	expressRequest: Request
+): Promise<boolean> {
+	for (const assets of [limits.perTransaction, limits.daily]) {
+		if (assets && (await validateAssets(assets, expressRequest, true)) < 0) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+/**
+ * Adds up what has been sent of each asset in the last 24 hours.
+ * @param filter Matches the ledger transactions sent by the wallet or key.
+ * @param assets The asset names to add up.
+ * @param session The mongo session of the surrounding transaction.
+ */
+async function sentInLastDay(
+	filter: any,
+	assets: string[],
+	session?: ClientSession
+): Promise<any> {
+	const transactions: Collection = getMongoCollection("transactions");
+
+	const totals = await transactions
+		.aggregate(
+			[
+				{
+					$match: {
+						...filter,
+						type: "transfer",
+						createdAt: { $gt: Date.now() - 1000 * 60 * 60 * 24 },
+					},
+				},
+				{ $project: { assets: { $objectToArray: "$assets" } } },
+				{ $unwind: "$assets" },
+				{ $match: { "assets.k": { $in: assets } } },
+				{ $group: { _id: "$assets.k", total: { $sum: "$assets.v" } } },
+			],
+			{ session }
+		)
+		.toArray();
+
+	let sent: any = {};
+	for (const total of totals) {
+		sent[total._id] = total.total;
+	}
+
+	return sent;
+}
+
+/**
+ * Checks payments against the sender wallet's limits, and those of the
+ * key sending them. Must be called inside the mongo transaction that
+ * debits the sender, so concurrent payments can't both slip under the
+ * daily limit. Without a session it's only an early check.
+ * @param senderId The wallet sending.
+ * @param keyId The named key sending, if one is.
+ * @param payments Each payment with its normalized recipient.
+ * @param session The mongo session of the surrounding transaction.
+ * @returns The first limit broken, or null if there's none.
+ */
+export async function checkSpendingLimits(
+	senderId: string,
+	keyId: string | undefined,
+	payments: { recipient: string; assets: any }[],
+	session?: ClientSession
+): Promise<LimitViolation | null> {
+	const wallets: Collection = getMongoCollection("wallets");
+
+	let projection: any = { limits: 1 };
+	if (keyId) {
+		projection.keys = { $elemMatch: { _id: new ObjectId(keyId) } };
+	}
+	const wallet = await wallets.findOne(
+		{ _id: new ObjectId(senderId) },
+		{ session, projection }
+	);
+
+	let checks: {
+		scope: LimitViolation["scope"];
+		limits?: SpendingLimits;
+		filter: any;
+	}[] = [
+		{
+			scope: "wallet",
+			limits: wallet?.limits,
+			filter: { "sender.walletId": new ObjectId(senderId) },
+		},
+	];
+	if (keyId) {
+		checks.push({
+			scope: "key",
+			limits: wallet?.keys?.[0]?.limits,
+			filter: { "sender.keyId": new ObjectId(keyId) },
+		});
+	}
+
+	for (const { scope, limits, filter } of checks) {
+		if (!limits) {
+			continue;
+		}
+
+		let totals: any = {};
+		for (const payment of payments) {
+			if (
+				limits.recipients &&
+				!limits.recipients.includes(payment.recipient)
+			) {
+				return { scope, limit: "recipients", recipient: payment.recipient };
+			}
+
+			for (const key in payment.assets) {
+				if (
+					limits.perTransaction?.[key] !== undefined &&
+					payment.assets[key] > limits.perTransaction[key]
+				) {
+					return { scope, limit: "perTransaction", asset: key };
+				}
+				totals[key] = (totals[key] ?? 0) + payment.assets[key];
+			}
+		}
+
+		const dailyAssets = Object.keys(totals).filter(
+			(key) => limits.daily?.[key] !== undefined
+		);
+		if (!dailyAssets.length) {
+			continue;
+		}
+
+		const sent = await sentInLastDay(filter, dailyAssets, session);
+		for (const key of dailyAssets) {
+			if ((sent[key] ?? 0) + totals[key] > limits.daily[key]) {
+				return { scope, limit: "daily", asset: key };
+			}
+		}
+	}
+
+	return null;
+}
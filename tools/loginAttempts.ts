@@ -0,0 +1,98 @@
+import { getRedisConnection } from "./db";
+
+// Failures before each attempt has to wait, the wait doubles each time
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY = 1000 * 60 * 5;
+
+// Failures before the account is locked outright
+const LOCKOUT_ATTEMPTS = 10;
+const LOCKOUT_DURATION = 1000 * 60 * 15;
+
+// Failures are forgotten after an hour without another
+const ATTEMPT_WINDOW_SECONDS = 60 * 60;
+
+export interface LoginLockout {
+	failures: number;
+	/** When the next attempt is allowed, null if it already is */
+	retryAt: number | null;
+	locked: boolean;
+}
+
+function attemptsKey(target: string): string {
+	return `loginAttempts:${target}`;
+}
+
+export interface LoginAttempt {
+	/** Whether it can go ahead, it's already counted as a failure if so */
+	allowed: boolean;
+	/** The state to return if it isn't allowed or it fails */
+	lockout: LoginLockout;
+}
+
+// Checks and counts an attempt in one step, so parallel attempts can't all
+// get past the check before any is counted. The wait before the next one
+// doubles after the free attempts, and becomes a lockout after too many
+const reserveScript = `
+local failures = tonumber(redis.call("HGET", KEYS[1], "failures") or "0")
+local retryAt = tonumber(redis.call("HGET", KEYS[1], "retryAt") or "0")
+local now = tonumber(ARGV[1])
+if retryAt > now then
+	return {0, failures, retryAt}
+end
+
+failures = failures + 1
+retryAt = 0
+if failures >= tonumber(ARGV[4]) then
+	retryAt = now + tonumber(ARGV[5])
+elseif failures >= tonumber(ARGV[2]) then
+	retryAt = now + math.min(1000 * 2 ^ (failures - tonumber(ARGV[2])), tonumber(ARGV[3]))
+end
+
+redis.call("HSET", KEYS[1], "failures", failures, "retryAt", retryAt)
+redis.call("EXPIRE", KEYS[1], ARGV[6])
+return {1, failures, retryAt}
+`;
+
+/**
+ * Starts a login attempt, counting it as a failure until it succeeds and
+ * the failures are cleared. Attempts made while a delay or lockout is in
+ * place aren't allowed, and aren't counted.
+ * @param target The username or `#address` being logged into.
+ */
+export async function reserveLoginAttempt(
+	target: string
+): Promise<LoginAttempt> {
+	const redis = getRedisConnection();
+
+	const [allowed, failures, retryAt] = (await redis.eval(reserveScript, {
+		keys: [attemptsKey(target)],
+		arguments: [
+			Date.now(),
+			FREE_ATTEMPTS,
+			MAX_DELAY,
+			LOCKOUT_ATTEMPTS,
+			LOCKOUT_DURATION,
+			ATTEMPT_WINDOW_SECONDS,
+		].map(String),
+	})) as number[];
+
+	return {
+		allowed: allowed === 1,
+		lockout: {
+			failures,
+			retryAt: retryAt || null,
+			locked: !!retryAt && failures >= LOCKOUT_ATTEMPTS,
+		},
+	};
+}
+
+/**
+ * Forgets the failed logins, after a successful one or an admin unlock.
+ * @param target The username or `#address` being logged into.
+ * @returns Whether there were any.
+ */
+export async function clearFailedLogins(target: string): Promise<boolean> {
+	const redis = getRedisConnection();
+
+	return (await redis.del(attemptsKey(target))) > 0;
+}
@@ -0,0 +1,63 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { getRedisConnection } from "./db";
+import { randomString } from "./random";
+
+const RESET_TOKEN_TTL_SECONDS = 60 * 60;
+
+function resetKey(walletId: string): string {
+	return `users:passwordReset:${walletId}`;
+}
+
+function hashResetToken(token: string): string {
+	return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issues a password reset token for a user, replacing any they already
+ * had. Only its hash is stored, and it expires after an hour.
+ * @param walletId The user's wallet.
+ * @returns The token to give the user, and when it expires.
+ */
+export async function issuePasswordReset(
+	walletId: string
+): Promise<{ token: string; expiresAt: number }> {
+	const token = randomString(32);
+
+	const redis = getRedisConnection();
+	await redis.setEx(
+		resetKey(walletId),
+		RESET_TOKEN_TTL_SECONDS,
+		hashResetToken(token)
+	);
+
+	return { token, expiresAt: Date.now() + RESET_TOKEN_TTL_SECONDS * 1000 };
+}
+
+/**
+ * Uses up a user's password reset token. A wrong token leaves the real
+ * one alone, and only one request can use the right one.
+ * @param walletId The user's wallet.
+ * @param token The token given.
+ * @returns Whether the token was valid.
+ */
+export async function consumePasswordReset(
+	walletId: string,
+	token: string
+): Promise<boolean> {
+	const redis = getRedisConnection();
+	const storedHash = await redis.get(resetKey(walletId));
+	if (!storedHash) {
+		return false;
+	}
+
+	const validToken = timingSafeEqual(
+		Buffer.from(storedHash),
+		Buffer.from(hashResetToken(token))
+	);
+	if (!validToken) {
+		return false;
+	}
+
+	// Whoever deletes it is the one that gets to use it
+	return (await redis.del(resetKey(walletId))) > 0;
+}
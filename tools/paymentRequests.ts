@@ -0,0 +1,27 @@
+import { ObjectId } from "mongodb";
+
+/**
+ * Turns a payment request document into what is returned to either party.
+ * @param paymentRequest The payment request document.
+ */
+export function toPaymentRequestResponse(paymentRequest: any): any {
+	let response: any = {
+		id: (paymentRequest._id as ObjectId).toString(),
+		status: paymentRequest.status,
+		requester: paymentRequest.requester,
+		payer: paymentRequest.payer,
+		assets: paymentRequest.assets,
+		createdAt: paymentRequest.createdAt,
+	};
+	if (paymentRequest.memo) {
+		response.memo = paymentRequest.memo;
+	}
+	if (paymentRequest.transactionId) {
+		response.transactionId = paymentRequest.transactionId.toString();
+	}
+	if (paymentRequest.resolvedAt) {
+		response.resolvedAt = paymentRequest.resolvedAt;
+	}
+
+	return response;
+}
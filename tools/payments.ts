@@ -0,0 +1,823 @@
+import { Response } from "express";
+import { ClientSession, Collection, ObjectId } from "mongodb";
+import { Server } from "socket.io";
+import { getMongoCollection, getMongoSession } from "./db";
+import { checkSpendingLimits, LimitViolation } from "./limits";
+import {
+	cacheTransaction,
+	recordTransaction,
+	toWalletTransaction,
+	TransactionAcceptance,
+	TransactionDocument,
+	TransactionParty,
+} from "./transactions";
+import {
+	enqueueWebhook,
+	isSubscribed,
+	notifyWebhook,
+	logDelivery,
+	sendWebhookNow,
+} from "./webhooks";
+
+export enum PaymentStatus {
+	Success = "success",
+	InsufficientFunds = "insufficientFunds",
+	RecipientNotFound = "recipientNotFound",
+	WebhookFailed = "webhookFailed",
+	Declined = "declined",
+	LimitExceeded = "limitExceeded",
+	ProposalRequired = "proposalRequired",
+	Cancelled = "cancelled",
+}
+
+/** Why the recipient smart wallet's webhook declined a payment */
+export interface PaymentDecline {
+	code: string;
+	message: string;
+}
+
+export interface Payment {
+	senderId: string;
+	/** Username, or `#address` for smart wallets */
+	sender: string;
+	/** The named key sending it, so its limits apply too */
+	keyId?: string;
+	/** Set when executing an approved proposal of a multi-signature wallet */
+	proposalId?: string;
+	/** Username, or `#address` for smart wallets */
+	recipient: string;
+	assets: any;
+	memo?: string;
+	/**
+	 * Runs inside the mongo transaction once the assets have moved,
+	 * returning false cancels the payment
+	 */
+	withinTransaction?: (
+		session: ClientSession,
+		transaction: TransactionDocument
+	) => Promise<boolean>;
+}
+
+export interface PaymentResult {
+	status: PaymentStatus;
+	/** Only set when the status is `Declined` */
+	decline?: PaymentDecline;
+	/** Only set when the status is `LimitExceeded` */
+	limit?: LimitViolation;
+	recipientId?: string;
+	transaction?: TransactionDocument;
+}
+
+export interface BatchPayment {
+	senderId: string;
+	/** Username, or `#address` for smart wallets */
+	sender: string;
+	/** The named key sending it, so its limits apply too */
+	keyId?: string;
+	payments: { recipient: string; assets: any; memo?: string }[];
+}
+
+export interface BatchPaymentResult {
+	status: PaymentStatus;
+	/** Only set when the status is `Declined` */
+	decline?: PaymentDecline;
+	/** Only set when the status is `LimitExceeded` */
+	limit?: LimitViolation;
+	/** One per payment, in the same order */
+	results: PaymentResult[];
+}
+
+export const paymentErrors = {
+	[PaymentStatus.InsufficientFunds]: {
+		status: 400,
+		code: "W0002",
+		message: "You don't have the assets to cover this transaction",
+	},
+	[PaymentStatus.RecipientNotFound]: {
+		status: 404,
+		code: "W0003",
+		message: "The recipient couldn't be found",
+	},
+	[PaymentStatus.WebhookFailed]: {
+		status: 400,
+		code: "W0004",
+		message:
+			"Recipient smart wallet's webhook is down, or declined your transaction",
+	},
+	[PaymentStatus.Declined]: {
+		status: 400,
+		code: "W0021",
+		message: "Recipient smart wallet declined your transaction",
+	},
+	[PaymentStatus.LimitExceeded]: {
+		status: 403,
+		code: "W0027",
+		message: "This is over the spending limits of the wallet or key",
+	},
+	[PaymentStatus.ProposalRequired]: {
+		status: 403,
+		code: "W0028",
+		message:
+			"This is a multi-signature wallet, payments must be proposed to its co-owners",
+	},
+	[PaymentStatus.Cancelled]: {
+		status: 409,
+		code: "W0012",
+		message: "The transaction was cancelled before it completed",
+	},
+};
+
+/**
+ * Normalizes a recipient string, smart wallet addresses are lowercase.
+ * @param recipient Username, or `#address` for smart wallets.
+ */
+export function normalizeRecipient(recipient: string): string {
+	return recipient.charAt(0) === "#" ? recipient.toLowerCase() : recipient;
+}
+
+/**
+ * Gets the name a wallet sends and receives as.
+ * @param wallet Wallet document with `user.username` and `address` projected.
+ * @returns Username, or `#address` for smart wallets.
+ */
+export function walletName(wallet: any): string {
+	return wallet.user ? wallet.user.username : `#${wallet.address}`;
+}
+
+/**
+ * Creates the mongo filter to find a recipient's wallet.
+ * @param recipient Username, or `#address` for smart wallets.
+ */
+export function recipientFilter(recipient: string): any {
+	if (recipient.charAt(0) === "#") {
+		return { address: recipient.substring(1).toLowerCase() };
+	} else {
+		return { "user.username": recipient };
+	}
+}
+
+/**
+ * Whether a wallet is multi-signature, so it can only send through
+ * proposals approved by its co-owners.
+ * @param walletId The sending wallet.
+ * @param session The mongo session of the surrounding transaction.
+ */
+export async function requiresProposal(
+	walletId: string,
+	session?: ClientSession
+): Promise<boolean> {
+	const wallets: Collection = getMongoCollection("wallets");
+
+	return !!(await wallets.countDocuments(
+		{ _id: new ObjectId(walletId), multisig: { $exists: true } },
+		{ session, limit: 1 }
+	));
+}
+
+/**
+ * Whether a wallet has at least the given amount of each asset.
+ * @param walletId The sending wallet.
+ * @param assets The amount of each asset needed.
+ */
+async function hasAssets(walletId: string, assets: any): Promise<boolean> {
+	const wallets: Collection = getMongoCollection("wallets");
+
+	let queryFilter: any = {
+		_id: new ObjectId(walletId),
+	};
+	for (const key in assets) {
+		queryFilter[`assets.${key}`] = {
+			$gte: assets[key],
+		};
+	}
+
+	return !!(await wallets.countDocuments(queryFilter, { limit: 1 }));
+}
+
+/**
+ * Creates the ledger party for the sender of a payment or batch.
+ * @param payment The payment or batch being sent.
+ */
+function senderParty(payment: Payment | BatchPayment): TransactionParty {
+	let party: TransactionParty = {
+		walletId: new ObjectId(payment.senderId),
+		name: payment.sender,
+	};
+	if (payment.keyId) {
+		party.keyId = new ObjectId(payment.keyId);
+	}
+
+	return party;
+}
+
+/**
+ * Creates the body posted to the recipient smart wallet's webhook.
+ * @param payment The payment being made to them.
+ * @param transaction The ledger transaction, only known once committed.
+ */
+function paymentWebhookPayload(
+	payment: Payment,
+	transaction?: TransactionDocument
+): any {
+	let payload: any = {
+		walletId: payment.senderId,
+		sender: payment.sender,
+		assets: payment.assets,
+	};
+	if (payment.memo) {
+		payload.memo = payment.memo;
+	}
+	if (transaction) {
+		payload.id = (transaction._id as ObjectId).toString();
+		payload.createdAt = transaction.createdAt;
+	}
+
+	return payload;
+}
+
+/**
+ * Whether the recipient's webhook has to accept the payment before it
+ * goes through, rather than being notified once it has.
+ * @param recipient Wallet document with `webhook` and `webhookMode` projected.
+ */
+function isBlockingWebhook(recipient: any): boolean {
+	return !!recipient.webhook && recipient.webhookMode !== "async";
+}
+
+interface AcceptanceResult {
+	status: PaymentStatus;
+	decline?: PaymentDecline;
+	acceptance?: TransactionAcceptance;
+	/** Logged in the payment's transaction, so it's only kept with it */
+	delivery?: any;
+}
+
+/**
+ * Posts the payment to the recipient's webhook if it has to accept it first.
+ * In "explicit" mode the webhook's decision is used, in "blocking" mode any
+ * 2xx response accepts it. Must be called before the mongo transaction, so
+ * a slow webhook can't hold it open or be posted to again when it retries.
+ * Failed and declined deliveries are logged straight away.
+ * @param recipient Wallet document with the webhook fields projected.
+ * @param payment The payment being made to them.
+ * @returns The status, with the reason if declined or the acceptance and delivery to record.
+ */
+async function requestAcceptance(
+	recipient: any,
+	payment: Payment
+): Promise<AcceptanceResult> {
+	if (!isBlockingWebhook(recipient)) {
+		return { status: PaymentStatus.Success };
+	}
+
+	const webhookResult = await sendWebhookNow(
+		recipient,
+		"payment",
+		paymentWebhookPayload(payment)
+	);
+	if (!webhookResult.delivered) {
+		await logDelivery(webhookResult.delivery);
+		return { status: PaymentStatus.WebhookFailed };
+	}
+	if (!webhookResult.decision) {
+		return {
+			status: PaymentStatus.Success,
+			delivery: webhookResult.delivery,
+		};
+	}
+
+	const decision = webhookResult.decision;
+	if (!decision.accept) {
+		await logDelivery(webhookResult.delivery);
+		return {
+			status: PaymentStatus.Declined,
+			decline: {
+				code: decision.code as string,
+				message: decision.message as string,
+			},
+		};
+	}
+
+	let acceptance: TransactionAcceptance = {
+		deliveryId: webhookResult.deliveryId,
+	};
+	if (decision.reference) {
+		acceptance.reference = decision.reference;
+	}
+
+	return {
+		status: PaymentStatus.Success,
+		acceptance,
+		delivery: webhookResult.delivery,
+	};
+}
+
+// What the payment routes need of the recipient's wallet
+const recipientProjection = {
+	webhook: 1,
+	webhookSecret: 1,
+	webhookMode: 1,
+	webhookEvents: 1,
+};
+
+/**
+ * Queues the notifications to the recipient's webhook, if they have one
+ * in "async" mode, and to the sender's webhook if they're subscribed to
+ * outgoing payments. Must be called after the transaction has committed.
+ * @param recipient Wallet document with the webhook fields projected.
+ * @param payment The payment made to them.
+ * @param transaction The ledger transaction.
+ */
+async function notifyPaymentWebhooks(
+	recipient: any,
+	payment: Payment,
+	transaction: TransactionDocument
+): Promise<void> {
+	if (
+		recipient.webhookMode === "async" &&
+		isSubscribed(recipient, "payment")
+	) {
+		await enqueueWebhook(
+			recipient._id,
+			"payment",
+			paymentWebhookPayload(payment, transaction)
+		);
+	}
+
+	let sentPayload: any = {
+		id: (transaction._id as ObjectId).toString(),
+		walletId: recipient._id.toString(),
+		recipient: transaction.recipient.name,
+		assets: payment.assets,
+		createdAt: transaction.createdAt,
+	};
+	if (payment.memo) {
+		sentPayload.memo = payment.memo;
+	}
+	await notifyWebhook(payment.senderId, "payment.sent", sentPayload);
+}
+
+/**
+ * Sends assets from one wallet to another. Posts to the recipient's webhook
+ * first if it has to accept it, then credits the recipient, debits the
+ * sender and records it in the ledger all in one mongo transaction. Then
+ * caches it and posts to the recipient's socket room.
+ * @param payment The payment to make.
+ * @param io The socket server, `req.app.get("io")`.
+ * @returns The status, and on success the ledger transaction.
+ */
+export async function sendPayment(
+	payment: Payment,
+	io: Server
+): Promise<PaymentResult> {
+	const wallets: Collection = getMongoCollection("wallets");
+	const recipient = normalizeRecipient(payment.recipient);
+
+	let result: PaymentResult = { status: PaymentStatus.Success };
+
+	// Find the recipient, and if its "smart" ask its webhook to accept it
+	// before the transaction starts. Everything is checked again inside it
+	if (!payment.proposalId && (await requiresProposal(payment.senderId))) {
+		return { status: PaymentStatus.ProposalRequired };
+	}
+	const recipientWallet = await wallets.findOne(recipientFilter(recipient), {
+		projection: recipientProjection,
+	});
+	if (!recipientWallet) {
+		return { status: PaymentStatus.RecipientNotFound };
+	}
+
+	// A webhook shouldn't accept a payment that can't go through,
+	// so check the sender's limits and funds before asking it
+	if (isBlockingWebhook(recipientWallet)) {
+		const limit = await checkSpendingLimits(payment.senderId, payment.keyId, [
+			{ recipient, assets: payment.assets },
+		]);
+		if (limit) {
+			return { status: PaymentStatus.LimitExceeded, limit };
+		}
+		if (!(await hasAssets(payment.senderId, payment.assets))) {
+			return { status: PaymentStatus.InsufficientFunds };
+		}
+	}
+
+	const acceptanceResult = await requestAcceptance(recipientWallet, payment);
+	if (acceptanceResult.status !== PaymentStatus.Success) {
+		return {
+			status: acceptanceResult.status,
+			decline: acceptanceResult.decline,
+		};
+	}
+	result.recipientId = recipientWallet._id.toString();
+
+	// Use transaction to check the sender's limits, put funds into
+	// recipient's wallet, then remove funds from senders wallet
+	const session = getMongoSession();
+	await session.withTransaction(async () => {
+		if (
+			!payment.proposalId &&
+			(await requiresProposal(payment.senderId, session))
+		) {
+			result.status = PaymentStatus.ProposalRequired;
+			return await session.abortTransaction();
+		}
+
+		const limit = await checkSpendingLimits(
+			payment.senderId,
+			payment.keyId,
+			[{ recipient, assets: payment.assets }],
+			session
+		);
+		if (limit) {
+			result.status = PaymentStatus.LimitExceeded;
+			result.limit = limit;
+			return await session.abortTransaction();
+		}
+
+		let queryUpdate: any = {
+			$inc: {},
+		};
+		for (const key in payment.assets) {
+			queryUpdate.$inc[`assets.${key}`] = payment.assets[key];
+		}
+
+		const recipientResult = await wallets.updateOne(
+			{ _id: recipientWallet._id },
+			queryUpdate,
+			{ session }
+		);
+
+		if (!recipientResult.matchedCount) {
+			result.status = PaymentStatus.RecipientNotFound;
+			return await session.abortTransaction();
+		}
+
+		// Now subtract the assets from the sender,
+		// filtering on them having enough of each
+		let queryFilter: any = {
+			_id: new ObjectId(payment.senderId),
+		};
+		queryUpdate = {
+			$inc: {},
+		};
+		for (const key in payment.assets) {
+			queryFilter[`assets.${key}`] = {
+				$gte: payment.assets[key],
+			};
+
+			queryUpdate.$inc[`assets.${key}`] = -payment.assets[key];
+		}
+
+		const senderResult = await wallets.updateOne(queryFilter, queryUpdate, {
+			session,
+		});
+
+		if (!senderResult.modifiedCount) {
+			result.status = PaymentStatus.InsufficientFunds;
+			return await session.abortTransaction();
+		}
+
+		result.transaction = await recordTransaction(
+			"transfer",
+			senderParty(payment),
+			{ walletId: recipientWallet._id, name: recipient },
+			payment.assets,
+			session,
+			payment.memo,
+			acceptanceResult.acceptance
+		);
+		if (acceptanceResult.delivery) {
+			await logDelivery(acceptanceResult.delivery, session);
+		}
+
+		if (
+			payment.withinTransaction &&
+			!(await payment.withinTransaction(session, result.transaction))
+		) {
+			result.status = PaymentStatus.Cancelled;
+			return await session.abortTransaction();
+		}
+	});
+
+	await session.endSession();
+
+	if (result.status !== PaymentStatus.Success) {
+		return result;
+	}
+
+	// Cache transaction for sender and receiver
+	const transaction = result.transaction as TransactionDocument;
+	const recipientId = result.recipientId as string;
+	await cacheTransaction(
+		payment.senderId,
+		toWalletTransaction(transaction, payment.senderId)
+	);
+	const receiverTransaction = toWalletTransaction(transaction, recipientId);
+	await cacheTransaction(recipientId, receiverTransaction);
+
+	// Post to socket room, and notify their webhook
+	io.to(recipient).emit("transaction", receiverTransaction);
+	await notifyPaymentWebhooks(recipientWallet, payment, transaction);
+
+	return result;
+}
+
+/**
+ * Sends assets from one wallet to many in a single mongo transaction. Either
+ * every payment goes through or none do, the sender is debited once for the
+ * total and each payment is recorded in the ledger on its own.
+ * @param batch The payments to make.
+ * @param io The socket server, `req.app.get("io")`.
+ * @returns The overall status, and the status of each payment.
+ */
+export async function sendBatchPayment(
+	batch: BatchPayment,
+	io: Server
+): Promise<BatchPaymentResult> {
+	const wallets: Collection = getMongoCollection("wallets");
+	const recipients = batch.payments.map((payment) =>
+		normalizeRecipient(payment.recipient)
+	);
+
+	let result: BatchPaymentResult = {
+		status: PaymentStatus.Success,
+		results: [],
+	};
+
+	// Fails the whole batch, with the payment at `index` being the reason
+	const failBatch = (
+		status: PaymentStatus,
+		index?: number,
+		decline?: PaymentDecline
+	) => {
+		result.status = status;
+		result.decline = decline;
+		result.results = batch.payments.map((payment, paymentIndex) => {
+			if (paymentIndex !== index) {
+				return { status: PaymentStatus.Cancelled };
+			}
+			return decline ? { status, decline } : { status };
+		});
+		return result;
+	};
+
+	// Find each recipient, and ask those with webhooks to accept it before
+	// the transaction starts. Everything is checked again inside it
+	let recipientWallets: any[] = [];
+	let acceptanceResults: AcceptanceResult[] = [];
+	if (await requiresProposal(batch.senderId)) {
+		return failBatch(PaymentStatus.ProposalRequired);
+	}
+	for (let index = 0; index < batch.payments.length; index++) {
+		const recipientWallet = await wallets.findOne(
+			recipientFilter(recipients[index]),
+			{ projection: recipientProjection }
+		);
+		if (!recipientWallet) {
+			return failBatch(PaymentStatus.RecipientNotFound, index);
+		}
+
+		recipientWallets.push(recipientWallet);
+	}
+
+	// A webhook shouldn't accept a payment that can't go through,
+	// so check the sender's limits and funds before asking any
+	if (recipientWallets.some(isBlockingWebhook)) {
+		const limit = await checkSpendingLimits(
+			batch.senderId,
+			batch.keyId,
+			batch.payments.map((payment, index) => ({
+				recipient: recipients[index],
+				assets: payment.assets,
+			}))
+		);
+		if (limit) {
+			result.limit = limit;
+			return failBatch(PaymentStatus.LimitExceeded);
+		}
+
+		let totals: any = {};
+		for (const payment of batch.payments) {
+			for (const key in payment.assets) {
+				totals[key] = (totals[key] ?? 0) + payment.assets[key];
+			}
+		}
+		if (!(await hasAssets(batch.senderId, totals))) {
+			return failBatch(PaymentStatus.InsufficientFunds);
+		}
+	}
+
+	for (let index = 0; index < batch.payments.length; index++) {
+		const acceptanceResult = await requestAcceptance(
+			recipientWallets[index],
+			{
+				senderId: batch.senderId,
+				sender: batch.sender,
+				...batch.payments[index],
+			}
+		);
+		if (acceptanceResult.status !== PaymentStatus.Success) {
+			return failBatch(
+				acceptanceResult.status,
+				index,
+				acceptanceResult.decline
+			);
+		}
+
+		acceptanceResults.push(acceptanceResult);
+	}
+
+	const session = getMongoSession();
+	await session.withTransaction(async () => {
+		result.results = [];
+
+		if (await requiresProposal(batch.senderId, session)) {
+			failBatch(PaymentStatus.ProposalRequired);
+			return await session.abortTransaction();
+		}
+
+		const limit = await checkSpendingLimits(
+			batch.senderId,
+			batch.keyId,
+			batch.payments.map((payment, index) => ({
+				recipient: recipients[index],
+				assets: payment.assets,
+			})),
+			session
+		);
+		if (limit) {
+			result.limit = limit;
+			failBatch(PaymentStatus.LimitExceeded);
+			return await session.abortTransaction();
+		}
+
+		// Credit each recipient
+		let totals: any = {};
+		for (let index = 0; index < batch.payments.length; index++) {
+			const payment = batch.payments[index];
+
+			let queryUpdate: any = {
+				$inc: {},
+			};
+			for (const key in payment.assets) {
+				queryUpdate.$inc[`assets.${key}`] = payment.assets[key];
+				totals[key] = (totals[key] ?? 0) + payment.assets[key];
+			}
+
+			const recipientResult = await wallets.updateOne(
+				{ _id: recipientWallets[index]._id },
+				queryUpdate,
+				{ session }
+			);
+
+			if (!recipientResult.matchedCount) {
+				failBatch(PaymentStatus.RecipientNotFound, index);
+				return await session.abortTransaction();
+			}
+
+			result.results.push({
+				status: PaymentStatus.Success,
+				recipientId: recipientWallets[index]._id.toString(),
+			});
+		}
+
+		// Now subtract the total from the sender once
+		let queryFilter: any = {
+			_id: new ObjectId(batch.senderId),
+		};
+		let queryUpdate: any = {
+			$inc: {},
+		};
+		for (const key in totals) {
+			queryFilter[`assets.${key}`] = {
+				$gte: totals[key],
+			};
+
+			queryUpdate.$inc[`assets.${key}`] = -totals[key];
+		}
+
+		const senderResult = await wallets.updateOne(queryFilter, queryUpdate, {
+			session,
+		});
+
+		if (!senderResult.modifiedCount) {
+			failBatch(PaymentStatus.InsufficientFunds);
+			return await session.abortTransaction();
+		}
+
+		// Record each payment in the ledger
+		for (let index = 0; index < batch.payments.length; index++) {
+			result.results[index].transaction = await recordTransaction(
+				"transfer",
+				senderParty(batch),
+				{
+					walletId: new ObjectId(result.results[index].recipientId),
+					name: recipients[index],
+				},
+				batch.payments[index].assets,
+				session,
+				batch.payments[index].memo,
+				acceptanceResults[index].acceptance
+			);
+
+			const delivery = acceptanceResults[index].delivery;
+			if (delivery) {
+				await logDelivery(delivery, session);
+			}
+		}
+	});
+
+	await session.endSession();
+
+	if (result.status !== PaymentStatus.Success) {
+		return result;
+	}
+
+	// Cache transactions for sender and receivers,
+	// post to their rooms and notify their webhooks
+	for (let index = 0; index < result.results.length; index++) {
+		const transaction = result.results[index]
+			.transaction as TransactionDocument;
+		const recipientId = result.results[index].recipientId as string;
+		await cacheTransaction(
+			batch.senderId,
+			toWalletTransaction(transaction, batch.senderId)
+		);
+		const receiverTransaction = toWalletTransaction(transaction, recipientId);
+		await cacheTransaction(recipientId, receiverTransaction);
+
+		io.to(recipients[index]).emit("transaction", receiverTransaction);
+		await notifyPaymentWebhooks(
+			recipientWallets[index],
+			{
+				senderId: batch.senderId,
+				sender: batch.sender,
+				...batch.payments[index],
+			},
+			transaction
+		);
+	}
+
+	return result;
+}
+
+/**
+ * Turns the result of a batch into what is returned to the sender,
+ * one entry per payment.
+ * @param batch The batch that was sent.
+ * @param result The result returned by `sendBatchPayment`.
+ */
+export function toBatchResponse(
+	batch: BatchPayment,
+	result: BatchPaymentResult
+): any[] {
+	return result.results.map((paymentResult, index) => {
+		let response: any = {
+			recipient: batch.payments[index].recipient,
+			status: paymentResult.status,
+		};
+		if (paymentResult.decline) {
+			response.reason = paymentResult.decline;
+		}
+		if (paymentResult.transaction) {
+			response.id = (paymentResult.transaction._id as ObjectId).toString();
+			response.createdAt = paymentResult.transaction.createdAt;
+		}
+		return response;
+	});
+}
+
+/**
+ * Sends the error response for a failed payment, with the recipient's
+ * reason if their webhook declined it.
+ * @param res The routes Response variable.
+ * @param result The result returned by `sendPayment` or `sendBatchPayment`.
+ * @param extra Any extra fields to put in the body.
+ */
+export function paymentError(
+	res: Response,
+	result: {
+		status: PaymentStatus;
+		decline?: PaymentDecline;
+		limit?: LimitViolation;
+	},
+	extra: any = {}
+) {
+	const error =
+		paymentErrors[
+			result.status as Exclude<PaymentStatus, PaymentStatus.Success>
+		];
+
+	let body: any = {
+		code: error.code,
+		message: error.message,
+	};
+	if (result.decline) {
+		body.reason = result.decline;
+	}
+	if (result.limit) {
+		body.limit = result.limit;
+	}
+
+	return res.status(error.status).json({ ...body, ...extra });
+}
@@ -0,0 +1,60 @@
+import Joi from "joi";
+import { walletName } from "./payments";
+
+// Null clears a field, missing fields are left as they are
+export const profileSchema = Joi.object({
+	displayName: Joi.string().trim().min(1).max(32).allow(null),
+	description: Joi.string().trim().max(280).allow(null),
+	iconUrl: Joi.string()
+		.trim()
+		.max(512)
+		.pattern(/^https:\/\/.*$/)
+		.allow(null),
+}).min(1);
+
+/**
+ * Creates the mongo update for a profile edit. Changing the display name
+ * or icon removes the verified flag, so a verified wallet can't be made
+ * to look like someone else.
+ * @param profile Body that passed `profileSchema`.
+ */
+export function profileUpdate(profile: any): any {
+	let queryUpdate: any = { $set: {}, $unset: {} };
+	for (const key in profile) {
+		if (profile[key] === null) {
+			queryUpdate.$unset[`profile.${key}`] = "";
+		} else {
+			queryUpdate.$set[`profile.${key}`] = profile[key];
+		}
+	}
+	if ("displayName" in profile || "iconUrl" in profile) {
+		queryUpdate.$unset.verified = "";
+	}
+
+	// Mongo refuses empty operators
+	for (const operator of ["$set", "$unset"]) {
+		if (!Object.keys(queryUpdate[operator]).length) {
+			delete queryUpdate[operator];
+		}
+	}
+
+	return queryUpdate;
+}
+
+/**
+ * Turns a wallet into its public profile.
+ * @param wallet Wallet document with `user.username`, `address`, `profile` and `verified` projected.
+ */
+export function toProfileResponse(wallet: any): any {
+	let response: any = {
+		name: walletName(wallet),
+		verified: !!wallet.verified,
+	};
+	for (const key of ["displayName", "description", "iconUrl"]) {
+		if (wallet.profile?.[key]) {
+			response[key] = wallet.profile[key];
+		}
+	}
+
+	return response;
+}
@@ -0,0 +1,334 @@
+import { Collection, ObjectId } from "mongodb";
+import { Server } from "socket.io";
+import { getMongoCollection } from "./db";
+import {
+	paymentErrors,
+	PaymentResult,
+	PaymentStatus,
+	recipientFilter,
+	sendPayment,
+	walletName,
+} from "./payments";
+
+// Changes to a multi-signature wallet the owner can only make once the
+// co-owners approve them. Proposals without an action are payments
+export const walletActions = [
+	"multisig.update",
+	"multisig.disable",
+	"owner.change",
+	"wallet.delete",
+] as const;
+
+export type WalletAction = (typeof walletActions)[number];
+
+/**
+ * Sends a proposal to every co-owner's socket room.
+ * @param proposal The proposal document.
+ * @param io The socket server.
+ */
+export async function notifyCoOwners(proposal: any, io: Server): Promise<void> {
+	const wallets: Collection = getMongoCollection("wallets");
+
+	const coOwners = await wallets
+		.find(
+			{ _id: { $in: proposal.ownerIds } },
+			{ projection: { "user.username": 1 } }
+		)
+		.toArray();
+
+	const rooms = coOwners
+		.filter((coOwner) => coOwner.user)
+		.map((coOwner) => coOwner.user.username);
+	if (rooms.length) {
+		io.to(rooms).emit("proposal", toProposalResponse(proposal));
+	}
+}
+
+/**
+ * Executes a proposal that has reached its threshold of approvals,
+ * sending the payment from the multi-signature wallet. Failures, even
+ * unexpected ones, are recorded on the proposal and it isn't retried.
+ * Wallet changes are only marked approved, for the owner to make with
+ * `useApprovedProposal`.
+ * @param proposalId The id of the proposal.
+ * @param io The socket server.
+ * @returns The resolved proposal, or null if it wasn't ready or was already claimed.
+ */
+export async function executeProposal(
+	proposalId: ObjectId,
+	io: Server
+): Promise<any | null> {
+	const proposals: Collection = getMongoCollection("proposals");
+
+	const readyFilter = {
+		_id: proposalId,
+		status: "pending",
+		expiresAt: { $gt: Date.now() },
+		$expr: { $gte: [{ $size: "$approvals" }, "$threshold"] },
+	};
+
+	const approveResult = await proposals.findOneAndUpdate(
+		{ ...readyFilter, action: { $in: walletActions } },
+		{ $set: { status: "approved", approvedAt: Date.now() } },
+		{ returnDocument: "after" }
+	);
+	if (approveResult.value) {
+		await notifyCoOwners(approveResult.value, io);
+		return approveResult.value;
+	}
+
+	// Claim it, so two final approvals can't both execute it
+	const claimResult = await proposals.findOneAndUpdate(
+		{ ...readyFilter, action: { $exists: false } },
+		{ $set: { status: "executing" } },
+		{ returnDocument: "after" }
+	);
+	if (!claimResult.value) {
+		return null;
+	}
+	const proposal = claimResult.value;
+
+	const wallets: Collection = getMongoCollection("wallets");
+
+	let update: any = { status: "executed" };
+	try {
+		// Pay to the recipient's current name incase it has changed,
+		// older proposals only have the name they were made with
+		const recipient = await wallets.findOne(
+			proposal.recipientId
+				? { _id: proposal.recipientId }
+				: recipientFilter(proposal.recipient),
+			{ projection: { "user.username": 1, address: 1 } }
+		);
+
+		let result: PaymentResult;
+		if (recipient) {
+			result = await sendPayment(
+				{
+					senderId: proposal.walletId.toString(),
+					sender: `#${proposal.address}`,
+					proposalId: proposal._id.toString(),
+					recipient: walletName(recipient),
+					assets: proposal.assets,
+					memo: proposal.memo,
+				},
+				io
+			);
+		} else {
+			result = { status: PaymentStatus.RecipientNotFound };
+		}
+
+		if (result.status === PaymentStatus.Success) {
+			update.transactionId = result.transaction?._id;
+		} else {
+			const error =
+				paymentErrors[
+					result.status as Exclude<PaymentStatus, PaymentStatus.Success>
+				];
+			update.status = "failed";
+			update.failure = { code: error.code, message: error.message };
+		}
+	} catch (error) {
+		// Don't leave it executing, where it could never be resolved
+		console.error(error);
+		update.status = "failed";
+		update.failure = {
+			message: "Unfortunately something broke in the server",
+		};
+	}
+	update.resolvedAt = Date.now();
+
+	const resolvedResult = await proposals.findOneAndUpdate(
+		{ _id: proposal._id },
+		{ $set: update },
+		{ returnDocument: "after" }
+	);
+	await notifyCoOwners(resolvedResult.value, io);
+
+	return resolvedResult.value;
+}
+
+/**
+ * Records a co-owner's approval or rejection of a pending proposal.
+ * Executes it once it has enough approvals, and rejects it once it
+ * can no longer get them.
+ * @param proposalId The id of the proposal.
+ * @param voter The co-owner's user wallet id and username.
+ * @param vote Whether they approve or reject it.
+ * @param io The socket server.
+ * @returns The updated proposal, or null if it isn't pending or they already voted.
+ */
+export async function voteOnProposal(
+	proposalId: ObjectId,
+	voter: { walletId: ObjectId; username: string },
+	vote: "approve" | "reject",
+	io: Server
+): Promise<any | null> {
+	const proposals: Collection = getMongoCollection("proposals");
+
+	let queryUpdate: any = { $push: {} };
+	queryUpdate.$push[vote === "approve" ? "approvals" : "rejections"] = {
+		...voter,
+		at: Date.now(),
+	};
+	const voteResult = await proposals.findOneAndUpdate(
+		{
+			_id: proposalId,
+			status: "pending",
+			expiresAt: { $gt: Date.now() },
+			"approvals.walletId": { $ne: voter.walletId },
+			"rejections.walletId": { $ne: voter.walletId },
+		},
+		queryUpdate,
+		{ returnDocument: "after" }
+	);
+	if (!voteResult.value) {
+		return null;
+	}
+	let proposal = voteResult.value;
+
+	if (vote === "approve") {
+		proposal = (await executeProposal(proposal._id, io)) ?? proposal;
+	} else if (
+		proposal.ownerIds.length - proposal.rejections.length <
+		proposal.threshold
+	) {
+		// Not enough co-owners left to approve it
+		const rejectResult = await proposals.findOneAndUpdate(
+			{ _id: proposal._id, status: "pending" },
+			{ $set: { status: "rejected", resolvedAt: Date.now() } },
+			{ returnDocument: "after" }
+		);
+		proposal = rejectResult.value ?? proposal;
+	}
+
+	if (proposal.status === "pending" || proposal.status === "rejected") {
+		await notifyCoOwners(proposal, io);
+	}
+
+	return proposal;
+}
+
+/**
+ * Marks every pending proposal that has expired, and lets the
+ * co-owners know.
+ * @param io The socket server.
+ */
+export async function expireProposals(io: Server): Promise<void> {
+	const proposals: Collection = getMongoCollection("proposals");
+
+	const expiredProposals = await proposals
+		.find(
+			{ status: "pending", expiresAt: { $lte: Date.now() } },
+			{ projection: { _id: 1 } }
+		)
+		.toArray();
+
+	for (const expiredProposal of expiredProposals) {
+		const result = await proposals.findOneAndUpdate(
+			{ _id: expiredProposal._id, status: "pending" },
+			{ $set: { status: "expired", resolvedAt: Date.now() } },
+			{ returnDocument: "after" }
+		);
+		if (result.value) {
+			await notifyCoOwners(result.value, io);
+		}
+	}
+}
+
+/**
+ * Uses up an approved wallet change, so each approval is only
+ * good for the one change.
+ * @param walletId The multi-signature wallet.
+ * @param proposalId The id of the approved proposal.
+ * @param action The change being made.
+ * @param details Fields the proposal must match, like the new owner.
+ * @returns The used proposal, or null if there's no matching approved one.
+ */
+export async function useApprovedProposal(
+	walletId: ObjectId,
+	proposalId: ObjectId,
+	action: WalletAction,
+	details: any = {}
+): Promise<any | null> {
+	const proposals: Collection = getMongoCollection("proposals");
+
+	const result = await proposals.findOneAndUpdate(
+		{
+			...details,
+			_id: proposalId,
+			walletId,
+			action,
+			status: "approved",
+			expiresAt: { $gt: Date.now() },
+		},
+		{ $set: { status: "executed", resolvedAt: Date.now() } },
+		{ returnDocument: "after" }
+	);
+
+	return result.value;
+}
+
+/**
+ * Cancels a wallet's pending and unused approved proposals, as its
+ * co-owners or threshold have changed since they were created.
+ * @param walletId The multi-signature wallet.
+ */
+export async function cancelPendingProposals(
+	walletId: ObjectId
+): Promise<void> {
+	const proposals: Collection = getMongoCollection("proposals");
+
+	await proposals.updateMany(
+		{ walletId, status: { $in: ["pending", "approved"] } },
+		{ $set: { status: "cancelled", resolvedAt: Date.now() } }
+	);
+}
+
+/**
+ * Turns a proposal document into what is returned to the co-owners.
+ * @param proposal The proposal document.
+ */
+export function toProposalResponse(proposal: any): any {
+	const toVote = (vote: any) => ({ username: vote.username, at: vote.at });
+
+	let response: any = {
+		id: (proposal._id as ObjectId).toString(),
+		wallet: `#${proposal.address}`,
+		action: proposal.action ?? "payment",
+		status: proposal.status,
+		proposer: proposal.proposer,
+		threshold: proposal.threshold,
+		approvals: proposal.approvals.map(toVote),
+		rejections: proposal.rejections.map(toVote),
+		expiresAt: proposal.expiresAt,
+		createdAt: proposal.createdAt,
+	};
+	if (proposal.recipient) {
+		response.recipient = proposal.recipient;
+		response.assets = proposal.assets;
+	}
+	if (proposal.owner) {
+		response.owner = proposal.owner;
+	}
+	if (proposal.multisig) {
+		response.multisig = proposal.multisig;
+	}
+	if (proposal.memo) {
+		response.memo = proposal.memo;
+	}
+	if (proposal.transactionId) {
+		response.transactionId = proposal.transactionId.toString();
+	}
+	if (proposal.failure) {
+		response.failure = proposal.failure;
+	}
+	if (proposal.approvedAt) {
+		response.approvedAt = proposal.approvedAt;
+	}
+	if (proposal.resolvedAt) {
+		response.resolvedAt = proposal.resolvedAt;
+	}
+
+	return response;
+}
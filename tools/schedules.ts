@@ -0,0 +1,165 @@
+import { Collection, ObjectId } from "mongodb";
+import { Server } from "socket.io";
+import { getMongoCollection } from "./db";
+import {
+	paymentErrors,
+	PaymentResult,
+	PaymentStatus,
+	recipientFilter,
+	sendPayment,
+	walletName,
+} from "./payments";
+
+// Stops a slow run overlapping the next one
+let running = false;
+
+/**
+ * Executes every active schedule that is due, through the same path as
+ * `POST /wallet/transactions`. Failures are recorded on the schedule, and
+ * the owner is told the outcome over their socket room.
+ * @param io The socket server.
+ */
+export async function runDueSchedules(io: Server): Promise<void> {
+	if (running) {
+		return;
+	}
+	running = true;
+
+	try {
+		const schedules: Collection = getMongoCollection("schedules");
+		const wallets: Collection = getMongoCollection("wallets");
+		const now = Date.now();
+
+		const dueSchedules = await schedules
+			.find({ status: "active", runAt: { $lte: now } })
+			.toArray();
+
+		for (const schedule of dueSchedules) {
+			// Claim the run by moving runAt forward, so if another
+			// server got to it first this one skips it
+			let claimUpdate: any = { $set: { lastRunAt: now }, $inc: { runs: 1 } };
+			if (schedule.interval) {
+				// Skip any runs missed while the server was down
+				let nextRunAt = schedule.runAt + schedule.interval * 60 * 1000;
+				while (nextRunAt <= now) {
+					nextRunAt += schedule.interval * 60 * 1000;
+				}
+				claimUpdate.$set.runAt = nextRunAt;
+			} else {
+				claimUpdate.$set.status = "completed";
+			}
+			const claimResult = await schedules.updateOne(
+				{ _id: schedule._id, status: "active", runAt: schedule.runAt },
+				claimUpdate
+			);
+			if (!claimResult.modifiedCount) {
+				continue;
+			}
+
+			const sender = await wallets.findOne(
+				{ _id: schedule.walletId },
+				{ projection: { "user.username": 1, address: 1 } }
+			);
+			if (!sender) {
+				await schedules.updateOne(
+					{ _id: schedule._id },
+					{ $set: { status: "cancelled" } }
+				);
+				continue;
+			}
+
+			// Pay to the recipient's current name incase it has changed,
+			// older schedules only have the name they were created with
+			const recipient = await wallets.findOne(
+				schedule.recipientId
+					? { _id: schedule.recipientId }
+					: recipientFilter(schedule.recipient),
+				{ projection: { "user.username": 1, address: 1 } }
+			);
+
+			let result: PaymentResult;
+			if (recipient) {
+				result = await sendPayment(
+					{
+						senderId: schedule.walletId.toString(),
+						sender: walletName(sender),
+						recipient: walletName(recipient),
+						assets: schedule.assets,
+						memo: schedule.memo,
+					},
+					io
+				);
+			} else {
+				result = { status: PaymentStatus.RecipientNotFound };
+			}
+
+			// Tell the owner how it went, and record any failure
+			// keeping the last 10 of them
+			if (result.status === PaymentStatus.Success) {
+				io.to(walletName(sender)).emit("schedule", {
+					id: schedule._id.toString(),
+					status: "sent",
+					transactionId: result.transaction?._id?.toString(),
+				});
+			} else {
+				const error =
+					paymentErrors[
+						result.status as Exclude<PaymentStatus, PaymentStatus.Success>
+					];
+				let failure: any = {
+					at: now,
+					code: error.code,
+					message: error.message,
+				};
+				if (result.decline) {
+					failure.reason = result.decline;
+				}
+				let failedUpdate: any = {
+					$push: { failures: { $each: [failure], $slice: -10 } },
+				};
+				if (!schedule.interval) {
+					failedUpdate.$set = { status: "failed" };
+				}
+				await schedules.updateOne({ _id: schedule._id }, failedUpdate);
+
+				io.to(walletName(sender)).emit("schedule", {
+					id: schedule._id.toString(),
+					status: "failed",
+					code: error.code,
+					message: error.message,
+					reason: result.decline,
+				});
+			}
+		}
+	} finally {
+		running = false;
+	}
+}
+
+/**
+ * Turns a schedule document into what is returned to the owner.
+ * @param schedule The schedule document.
+ */
+export function toScheduleResponse(schedule: any): any {
+	let response: any = {
+		id: (schedule._id as ObjectId).toString(),
+		status: schedule.status,
+		recipient: schedule.recipient,
+		assets: schedule.assets,
+		runAt: schedule.runAt,
+		runs: schedule.runs,
+		failures: schedule.failures,
+		createdAt: schedule.createdAt,
+	};
+	if (schedule.interval) {
+		response.interval = schedule.interval;
+	}
+	if (schedule.memo) {
+		response.memo = schedule.memo;
+	}
+	if (schedule.lastRunAt) {
+		response.lastRunAt = schedule.lastRunAt;
+	}
+
+	return response;
+}
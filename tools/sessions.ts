@@ -0,0 +1,147 @@
+import { Request } from "express";
+import { getRedisConnection } from "./db";
+import { randomString } from "./random";
+
+// connect-redis stores each session under this prefix
+const sessionPrefix = "sess:";
+
+// Don't save the session on every request just to move last seen
+const LAST_SEEN_INTERVAL = 1000 * 60;
+
+function sessionIndexKey(walletId: string): string {
+	return `wallets:${walletId}.sessions`;
+}
+
+/**
+ * Adds a newly created session to its wallet's index, so it can be
+ * listed and revoked. Sessions get their own id for this, as the
+ * session id is what the cookie holds.
+ * @param req The routes Request variable, with the session variables set.
+ */
+export async function trackSession(req: Request): Promise<void> {
+	req.session.sessionId = randomString(24);
+	req.session.ip = req.ip;
+	req.session.userAgent = req.header("User-Agent")?.slice(0, 256);
+	req.session.lastSeenAt = req.session.createdAt;
+
+	const redis = getRedisConnection();
+	await redis.hSet(
+		sessionIndexKey(req.session.walletId.toString()),
+		req.session.sessionId,
+		req.sessionID
+	);
+}
+
+/**
+ * Moves a session's last seen time forward, at most once a minute.
+ * @param req The routes Request variable.
+ */
+export function touchSession(req: Request): void {
+	const now = Date.now();
+	if (now - (req.session.lastSeenAt ?? 0) > LAST_SEEN_INTERVAL) {
+		req.session.lastSeenAt = now;
+	}
+}
+
+/**
+ * Gets every active session of a wallet. Sessions that have expired
+ * from the store are removed from the index as they're found.
+ * @param walletId The wallet the sessions are for.
+ */
+export async function listSessions(walletId: string): Promise<any[]> {
+	const redis = getRedisConnection();
+	const index = await redis.hGetAll(sessionIndexKey(walletId));
+
+	let sessions: any[] = [];
+	for (const sessionId in index) {
+		const data = await redis.get(sessionPrefix + index[sessionId]);
+		if (!data) {
+			await redis.hDel(sessionIndexKey(walletId), sessionId);
+			continue;
+		}
+
+		const session = JSON.parse(data);
+		sessions.push({
+			id: sessionId,
+			createdAt: session.createdAt,
+			lastSeenAt: session.lastSeenAt ?? session.createdAt,
+			ip: session.ip ?? null,
+			userAgent: session.userAgent ?? null,
+		});
+	}
+
+	return sessions.sort((a, b) => b.lastSeenAt - a.lastSeenAt);
+}
+
+/**
+ * Ends one of a wallet's sessions.
+ * @param walletId The wallet the session is for.
+ * @param sessionId The session's own id, not the cookie's.
+ * @returns Whether the session was found.
+ */
+export async function revokeSession(
+	walletId: string,
+	sessionId: string
+): Promise<boolean> {
+	const redis = getRedisConnection();
+	const sid = await redis.hGet(sessionIndexKey(walletId), sessionId);
+	if (!sid) {
+		return false;
+	}
+
+	await redis
+		.multi()
+		.del(sessionPrefix + sid)
+		.hDel(sessionIndexKey(walletId), sessionId)
+		.exec();
+
+	return true;
+}
+
+/**
+ * Ends every session of a wallet, except the one given.
+ * @param walletId The wallet the sessions are for.
+ * @param exceptSessionId The session to keep, usually the current one.
+ * @returns How many sessions were ended.
+ */
+export async function revokeSessions(
+	walletId: string,
+	exceptSessionId?: string
+): Promise<number> {
+	const redis = getRedisConnection();
+	const index = await redis.hGetAll(sessionIndexKey(walletId));
+
+	let revoked = 0;
+	for (const sessionId in index) {
+		if (sessionId === exceptSessionId) {
+			continue;
+		}
+
+		const [deleted] = await redis
+			.multi()
+			.del(sessionPrefix + index[sessionId])
+			.hDel(sessionIndexKey(walletId), sessionId)
+			.exec();
+		if (deleted) {
+			revoked++;
+		}
+	}
+
+	return revoked;
+}
+
+/**
+ * Removes a session from its wallet's index once it's destroyed.
+ * @param req The routes Request variable, before the session is destroyed.
+ */
+export async function untrackSession(req: Request): Promise<void> {
+	if (!req.session.sessionId) {
+		return;
+	}
+
+	const redis = getRedisConnection();
+	await redis.hDel(
+		sessionIndexKey(req.session.walletId.toString()),
+		req.session.sessionId
+	);
+}
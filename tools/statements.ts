@@ -0,0 +1,172 @@
+import { Collection, ObjectId } from "mongodb";
+import { getMongoCollection } from "./db";
+import { TransactionDocument } from "./transactions";
+
+/**
+ * Builds an account statement of a wallet over a period. Balances are worked
+ * backwards from the wallet's current assets using the ledger.
+ * @param walletId The wallet to build the statement of.
+ * @param from Start of the period, inclusive.
+ * @param to End of the period, exclusive.
+ * @returns The statement, or null if the wallet wasn't found.
+ */
+export async function buildStatement(
+	walletId: string,
+	from: Date,
+	to: Date
+): Promise<any | null> {
+	const wallets: Collection = getMongoCollection("wallets");
+	const transactions: Collection = getMongoCollection("transactions");
+
+	const wallet = await wallets.findOne(
+		{ _id: new ObjectId(walletId) },
+		{ projection: { assets: 1 } }
+	);
+	if (!wallet) {
+		return null;
+	}
+
+	// Everything since the start of the period is needed
+	// to undo it from the current balance
+	const documents = (await transactions
+		.find({
+			walletIds: new ObjectId(walletId),
+			createdAt: { $gte: from.getTime() },
+		})
+		.sort({ _id: 1 })
+		.toArray()) as TransactionDocument[];
+
+	let openingBalance: any = { ...wallet.assets };
+	let closingBalance: any = { ...wallet.assets };
+	let movements: any[] = [];
+
+	for (const document of documents) {
+		const inPeriod = document.createdAt < to.getTime();
+
+		// A transfer to itself is both a debit and a matching credit
+		let sides: boolean[] = [];
+		if (document.sender.walletId?.equals(walletId)) {
+			sides.push(true);
+		}
+		if (document.recipient.walletId?.equals(walletId)) {
+			sides.push(false);
+		}
+
+		for (const isSender of sides) {
+			for (const asset in document.assets) {
+				const amount = isSender
+					? -document.assets[asset]
+					: document.assets[asset];
+
+				openingBalance[asset] = (openingBalance[asset] ?? 0) - amount;
+				if (!inPeriod) {
+					closingBalance[asset] = (closingBalance[asset] ?? 0) - amount;
+					continue;
+				}
+
+				let movement: any = {
+					id: (document._id as ObjectId).toString(),
+					createdAt: document.createdAt,
+					type:
+						document.type === "transfer"
+							? isSender
+								? "send"
+								: "receive"
+							: document.type,
+					interactant: isSender
+						? document.recipient.name
+						: document.sender.name,
+					asset,
+					amount,
+				};
+				if (document.memo) {
+					movement.memo = document.memo;
+				}
+				movements.push(movement);
+			}
+		}
+	}
+
+	// Drop assets that were never held in the period
+	for (const asset in openingBalance) {
+		if (!openingBalance[asset] && !closingBalance[asset]) {
+			delete openingBalance[asset];
+			delete closingBalance[asset];
+		}
+	}
+
+	return {
+		from: from.getTime(),
+		to: to.getTime(),
+		openingBalance,
+		movements,
+		closingBalance,
+	};
+}
+
+/**
+ * Turns a statement from `buildStatement` into CSV, with the opening
+ * and closing balances as rows around the movements.
+ * @param statement The statement to convert.
+ */
+export function statementToCsv(statement: any): string {
+	let rows: any[][] = [
+		["date", "id", "type", "interactant", "asset", "amount", "memo"],
+	];
+
+	const fromDate = new Date(statement.from).toISOString();
+	for (const asset in statement.openingBalance) {
+		rows.push([
+			fromDate,
+			"",
+			"opening",
+			"",
+			asset,
+			statement.openingBalance[asset],
+			"",
+		]);
+	}
+
+	for (const movement of statement.movements) {
+		rows.push([
+			new Date(movement.createdAt).toISOString(),
+			movement.id,
+			movement.type,
+			movement.interactant,
+			movement.asset,
+			movement.amount,
+			movement.memo ?? "",
+		]);
+	}
+
+	const toDate = new Date(statement.to).toISOString();
+	for (const asset in statement.closingBalance) {
+		rows.push([
+			toDate,
+			"",
+			"closing",
+			"",
+			asset,
+			statement.closingBalance[asset],
+			"",
+		]);
+	}
+
+	// Quote any field that could break the row, and stop
+	// spreadsheets from reading memos as formulas
+	return rows
+		.map((row) =>
+			row
+				.map((field) => {
+					let value = String(field);
+					if (typeof field === "string" && /^[=+\-@]/.test(value)) {
+						value = `'${value}`;
+					}
+					return /[",\r\n]/.test(value)
+						? `"${value.replace(/"/g, '""')}"`
+						: value;
+				})
+				.join(",")
+		)
+		.join("\r\n");
+}
@@ -0,0 +1,258 @@
+import { ClientSession, Collection, ObjectId } from "mongodb";
+import { getMongoCollection, getRedisConnection } from "./db";
+
+/**
+ * One side of a transaction. Wallets have a `walletId`, outside
+ * parties (warehouses, collateral) only have a display name.
+ */
+export interface TransactionParty {
+	walletId?: ObjectId;
+	/** The named key that sent it, if one did */
+	keyId?: ObjectId;
+	name: string;
+}
+
+/**
+ * How the recipient smart wallet's webhook accepted a transfer,
+ * only for wallets in "explicit" mode.
+ */
+export interface TransactionAcceptance {
+	deliveryId: ObjectId;
+	/** The recipient's own reference for it, e.g. an order id */
+	reference?: string;
+}
+
+export interface TransactionDocument {
+	_id?: ObjectId;
+	type: "transfer" | "deposit" | "withdrawal";
+	sender: TransactionParty;
+	recipient: TransactionParty;
+	walletIds: ObjectId[];
+	assets: any;
+	memo?: string;
+	acceptance?: TransactionAcceptance;
+	createdAt: number;
+}
+
+/**
+ * Inserts a transaction into the durable ledger, and marks when the
+ * wallets in it were last active. Must be called inside the same mongo
+ * transaction that moves the assets.
+ * @param type "transfer" for wallet to wallet movements, otherwise the warehouse action.
+ * @param sender The party the assets left.
+ * @param recipient The party the assets went to.
+ * @param assets Object with asset names as keys, and their quantity as their value.
+ * @param session The mongo session of the surrounding transaction.
+ * @param memo Optional memo attached by the sender.
+ * @param acceptance How the recipient's webhook accepted it, if it had to.
+ * @returns The inserted transaction document.
+ */
+export async function recordTransaction(
+	type: TransactionDocument["type"],
+	sender: TransactionParty,
+	recipient: TransactionParty,
+	assets: any,
+	session: ClientSession,
+	memo?: string,
+	acceptance?: TransactionAcceptance
+): Promise<TransactionDocument> {
+	const transactions: Collection = getMongoCollection("transactions");
+
+	let transaction: TransactionDocument = {
+		type,
+		sender,
+		recipient,
+		walletIds: [],
+		assets,
+		createdAt: Date.now(),
+	};
+	if (sender.walletId) {
+		transaction.walletIds.push(sender.walletId);
+	}
+	if (recipient.walletId) {
+		transaction.walletIds.push(recipient.walletId);
+	}
+	if (memo) {
+		transaction.memo = memo;
+	}
+	if (acceptance) {
+		transaction.acceptance = acceptance;
+	}
+
+	const result = await transactions.insertOne(transaction, { session });
+	transaction._id = result.insertedId;
+
+	const wallets: Collection = getMongoCollection("wallets");
+	await wallets.updateMany(
+		{ _id: { $in: transaction.walletIds } },
+		{ $set: { lastActivityAt: transaction.createdAt } },
+		{ session }
+	);
+
+	return transaction;
+}
+
+/**
+ * Turns a ledger document into the shape a wallet sees it in,
+ * with "send"/"receive" relative to that wallet.
+ * @param transaction The ledger document.
+ * @param walletId The wallet viewing the transaction.
+ */
+export function toWalletTransaction(
+	transaction: TransactionDocument,
+	walletId: string
+): any {
+	const isSender = !!transaction.sender.walletId?.equals(walletId);
+
+	let type: string = transaction.type;
+	if (type === "transfer") {
+		type = isSender ? "send" : "receive";
+	}
+
+	let walletTransaction: any = {
+		id: (transaction._id as ObjectId).toString(),
+		type,
+		interactant: isSender
+			? transaction.recipient.name
+			: transaction.sender.name,
+		assets: transaction.assets,
+		createdAt: transaction.createdAt,
+	};
+	if (transaction.memo) {
+		walletTransaction.memo = transaction.memo;
+	}
+
+	return walletTransaction;
+}
+
+/**
+ * Gets the full receipt of a transaction, with both parties.
+ * Only returns it if the wallet was one of the parties.
+ * @param transactionId The id of the transaction.
+ * @param walletId The wallet requesting the receipt.
+ * @returns The receipt, or null if not found.
+ */
+export async function getReceipt(
+	transactionId: string,
+	walletId: string
+): Promise<any | null> {
+	const transactions: Collection = getMongoCollection("transactions");
+
+	const transaction = (await transactions.findOne({
+		_id: new ObjectId(transactionId),
+		walletIds: new ObjectId(walletId),
+	})) as TransactionDocument | null;
+	if (!transaction) {
+		return null;
+	}
+
+	let receipt: any = {
+		id: (transaction._id as ObjectId).toString(),
+		type: transaction.type,
+		createdAt: transaction.createdAt,
+		sender: transaction.sender.name,
+		recipient: transaction.recipient.name,
+		assets: transaction.assets,
+	};
+	if (transaction.memo) {
+		receipt.memo = transaction.memo;
+	}
+	if (transaction.acceptance) {
+		receipt.acceptance = {
+			deliveryId: transaction.acceptance.deliveryId.toString(),
+			reference: transaction.acceptance.reference,
+		};
+	}
+
+	return receipt;
+}
+
+/**
+ * Pushes a transaction onto the wallet's hot cache in redis,
+ * which only ever holds the latest 10 for 5 days.
+ * @param walletId The wallet the transaction belongs to.
+ * @param transaction The transaction as returned by `toWalletTransaction`.
+ */
+export async function cacheTransaction(
+	walletId: string,
+	transaction: any
+): Promise<void> {
+	const redis = getRedisConnection();
+	await redis
+		.multi()
+		.lPush(`wallets:${walletId}.transactions`, JSON.stringify(transaction))
+		.lTrim(`wallets:${walletId}.transactions`, 0, 9)
+		.expire(`wallets:${walletId}.transactions`, 60 * 60 * 24 * 5)
+		.exec();
+}
+
+/**
+ * Gets the latest transactions of a wallet, reading the redis cache
+ * first and falling back to the ledger (and refilling the cache) when
+ * it has expired.
+ * @param walletId The wallet to get the transactions of.
+ */
+export async function getCachedTransactions(walletId: string): Promise<any[]> {
+	const redis = getRedisConnection();
+	const cached = await redis.lRange(`wallets:${walletId}.transactions`, 0, 9);
+	if (cached && cached.length) {
+		return cached.map((transaction) => JSON.parse(transaction));
+	}
+
+	const page = await getTransactionPage(walletId, 10);
+	if (page.transactions.length) {
+		// lPush puts the last item first, so push oldest to newest
+		let multi = redis.multi();
+		for (let index = page.transactions.length - 1; index >= 0; index--) {
+			multi = multi.lPush(
+				`wallets:${walletId}.transactions`,
+				JSON.stringify(page.transactions[index])
+			);
+		}
+		await multi
+			.expire(`wallets:${walletId}.transactions`, 60 * 60 * 24 * 5)
+			.exec();
+	}
+
+	return page.transactions;
+}
+
+/**
+ * Gets a page of a wallet's transactions from the ledger, newest first.
+ * @param walletId The wallet to get the transactions of.
+ * @param limit Max amount of transactions to return.
+ * @param cursor The `cursor` returned with the previous page, if any.
+ * @returns The transactions, and the cursor of the next page or null if this is the last.
+ */
+export async function getTransactionPage(
+	walletId: string,
+	limit: number,
+	cursor?: string
+): Promise<{ transactions: any[]; cursor: string | null }> {
+	const transactions: Collection = getMongoCollection("transactions");
+
+	let query: any = { walletIds: new ObjectId(walletId) };
+	if (cursor) {
+		query._id = { $lt: new ObjectId(cursor) };
+	}
+
+	// Get one extra to know if there is a next page
+	const documents = (await transactions
+		.find(query)
+		.sort({ _id: -1 })
+		.limit(limit + 1)
+		.toArray()) as TransactionDocument[];
+
+	let nextCursor: string | null = null;
+	if (documents.length > limit) {
+		documents.pop();
+		nextCursor = (documents[documents.length - 1]._id as ObjectId).toString();
+	}
+
+	return {
+		transactions: documents.map((document) =>
+			toWalletTransaction(document, walletId)
+		),
+		cursor: nextCursor,
+	};
+}
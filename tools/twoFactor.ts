@@ -0,0 +1,169 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { Collection, ObjectId } from "mongodb";
+import { getMongoCollection } from "./db";
+
+const base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// RFC 6238 defaults, which every authenticator app supports
+const period = 30;
+const digits = 6;
+
+function base32Encode(buffer: Buffer): string {
+	let bits = 0;
+	let value = 0;
+	let output = "";
+
+	for (const byte of buffer) {
+		value = (value << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			output += base32Alphabet[(value >>> (bits - 5)) & 31];
+			bits -= 5;
+		}
+	}
+	if (bits > 0) {
+		output += base32Alphabet[(value << (5 - bits)) & 31];
+	}
+
+	return output;
+}
+
+function base32Decode(input: string): Buffer {
+	let bits = 0;
+	let value = 0;
+	let bytes: number[] = [];
+
+	for (const char of input.replace(/=+$/, "").toUpperCase()) {
+		value = (value << 5) | base32Alphabet.indexOf(char);
+		bits += 5;
+		if (bits >= 8) {
+			bytes.push((value >>> (bits - 8)) & 255);
+			bits -= 8;
+		}
+	}
+
+	return Buffer.from(bytes);
+}
+
+/**
+ * The HOTP code (RFC 4226) for a counter, which TOTP uses with the
+ * number of periods since the epoch as its counter.
+ * @param secret The base32 secret.
+ * @param counter The counter to create the code for.
+ */
+function hotp(secret: string, counter: number): string {
+	let counterBuffer = Buffer.alloc(8);
+	counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+	const hmac = createHmac("sha1", base32Decode(secret))
+		.update(counterBuffer)
+		.digest();
+
+	// Dynamic truncation
+	const offset = hmac[hmac.length - 1] & 15;
+	const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+	return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+/**
+ * Creates a new random secret, base32 encoded for authenticator apps.
+ */
+export function generateTotpSecret(): string {
+	return base32Encode(randomBytes(20));
+}
+
+/**
+ * The `otpauth://` URL authenticator apps read from a QR code.
+ * @param username The user enrolling.
+ * @param secret The base32 secret.
+ */
+export function totpUrl(username: string, secret: string): string {
+	const label = encodeURIComponent(`Stelo:${username}`);
+
+	return `otpauth://totp/${label}?secret=${secret}&issuer=Stelo&algorithm=SHA1&digits=${digits}&period=${period}`;
+}
+
+/**
+ * Finds which period a code is for, allowing one period either side
+ * for clock drift.
+ * @param secret The base32 secret.
+ * @param code The code given by the user.
+ * @returns The counter of the matching period, or null if it doesn't match.
+ */
+export function matchTotp(secret: string, code: string): number | null {
+	if (!/^[0-9]{6}$/.test(code)) {
+		return null;
+	}
+
+	const counter = Math.floor(Date.now() / 1000 / period);
+	for (const drift of [0, -1, 1]) {
+		const expected = hotp(secret, counter + drift);
+		if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+			return counter + drift;
+		}
+	}
+
+	return null;
+}
+
+function hashRecoveryCode(code: string): string {
+	return createHash("sha256")
+		.update(code.replace(/-/g, "").toLowerCase())
+		.digest("hex");
+}
+
+/**
+ * Creates a set of single-use recovery codes.
+ * @returns The codes to show the user once, and the hashes to store.
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+	let codes: string[] = [];
+	for (let i = 0; i < 10; i++) {
+		const code = randomBytes(5).toString("hex");
+		codes.push(`${code.slice(0, 5)}-${code.slice(5)}`);
+	}
+
+	return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+/**
+ * Checks a two-factor code for a user who has it enabled. A TOTP code
+ * can't be used twice, and a recovery code is removed once it's used.
+ * Both are claimed in a single update, so two requests can't race on
+ * the same code.
+ * @param walletId The user's wallet.
+ * @param twoFactor The user's `user.twoFactor` document.
+ * @param code The TOTP or recovery code given.
+ */
+export async function verifyTwoFactor(
+	walletId: ObjectId,
+	twoFactor: any,
+	code: string
+): Promise<boolean> {
+	const wallets: Collection = getMongoCollection("wallets");
+
+	const counter = matchTotp(twoFactor.secret, code);
+	if (counter !== null) {
+		const result = await wallets.updateOne(
+			{
+				_id: walletId,
+				$or: [
+					{ "user.twoFactor.lastCounter": { $exists: false } },
+					{ "user.twoFactor.lastCounter": { $lt: counter } },
+				],
+			},
+			{ $set: { "user.twoFactor.lastCounter": counter } }
+		);
+
+		return result.modifiedCount === 1;
+	}
+
+	const hash = hashRecoveryCode(code);
+	const result = await wallets.updateOne(
+		{ _id: walletId, "user.twoFactor.recoveryCodes": hash },
+		{ $pull: { "user.twoFactor.recoveryCodes": hash } }
+	);
+
+	return result.modifiedCount === 1;
+}
@@ -0,0 +1,55 @@
+import { ObjectId } from "mongodb";
+
+// Every scope a named wallet key can be given, the
+// wallet's primary `key` implicitly has all of them
+export const walletKeyScopes = [
+	"assets:read",
+	"transactions:read",
+	"transactions:send",
+	"webhooks:manage",
+	"wallet:manage",
+] as const;
+
+export type WalletKeyScope = (typeof walletKeyScopes)[number];
+
+/**
+ * Splits a named key into its id and secret, named keys are sent
+ * as `<id>.<secret>` so only one hash has to be compared.
+ * @param key The key from the Authorization header.
+ * @returns The id and secret, or null if it isn't a named key.
+ */
+export function parseNamedKey(
+	key: string
+): { id: string; secret: string } | null {
+	const match = /^([a-f0-9]{24})\.([a-zA-Z0-9]{24})$/.exec(key);
+	if (!match) {
+		return null;
+	}
+
+	return { id: match[1], secret: match[2] };
+}
+
+/**
+ * Turns a named key from the wallet's `keys` into what is returned
+ * to the owner, never including the hash.
+ * @param key The key subdocument.
+ */
+export function toWalletKeyResponse(key: any): any {
+	let response: any = {
+		id: (key._id as ObjectId).toString(),
+		name: key.name,
+		scopes: key.scopes,
+		createdAt: key.createdAt,
+	};
+	if (key.expiresAt) {
+		response.expiresAt = key.expiresAt;
+	}
+	if (key.limits) {
+		response.limits = key.limits;
+	}
+	if (key.lastUsedAt) {
+		response.lastUsedAt = key.lastUsedAt;
+	}
+
+	return response;
+}
@@ -0,0 +1,661 @@
+import axios, { AxiosResponse } from "axios";
+import { createHmac, randomBytes } from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import Joi from "joi";
+import { ClientSession, Collection, ObjectId } from "mongodb";
+import { getMongoCollection } from "./db";
+
+// Every event a smart wallet can subscribe its webhook to
+export const webhookEvents = [
+	"payment",
+	"payment.sent",
+	"deposit",
+	"key.rotated",
+	"owner.changed",
+	"wallet.deleted",
+];
+
+// Wallets from before subscriptions existed only got incoming payments
+const defaultWebhookEvents = ["payment"];
+
+// Webhooks can't reach the server's own network, loopback, private,
+// link-local (which has the cloud metadata address) and the like.
+// IPv4 addresses mapped into IPv6 are checked against the IPv4 rules
+const privateAddresses = new net.BlockList();
+for (const [network, prefix] of [
+	["0.0.0.0", 8],
+	["10.0.0.0", 8],
+	["100.64.0.0", 10],
+	["127.0.0.0", 8],
+	["169.254.0.0", 16],
+	["172.16.0.0", 12],
+	["192.0.0.0", 24],
+	["192.168.0.0", 16],
+	["198.18.0.0", 15],
+	["224.0.0.0", 3],
+] as const) {
+	privateAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+	["::", 127],
+	["64:ff9b::", 96],
+	["fc00::", 7],
+	["fe80::", 10],
+	["ff00::", 8],
+] as const) {
+	privateAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(address: string): boolean {
+	return privateAddresses.check(
+		address,
+		net.isIPv6(address) ? "ipv6" : "ipv4"
+	);
+}
+
+// Used by the agents below, so the address checked is the one connected
+// to and a webhook's DNS can't be changed to a private one afterwards
+function publicLookup(hostname: string, options: any, callback: any) {
+	dns.lookup(hostname, options, (error: any, address: any, family: any) => {
+		if (error) {
+			return callback(error, address, family);
+		}
+
+		const addresses = Array.isArray(address) ? address : [{ address }];
+		if (addresses.some((entry: any) => isPrivateAddress(entry.address))) {
+			return callback(
+				new Error(`${hostname} resolves to a private address`),
+				address,
+				family
+			);
+		}
+		callback(null, address, family);
+	});
+}
+
+const httpAgent = new http.Agent({ lookup: publicLookup } as http.AgentOptions);
+const httpsAgent = new https.Agent({
+	lookup: publicLookup,
+} as https.AgentOptions);
+
+/**
+ * Checks a webhook url resolves only to public addresses, so wallets
+ * can't use it to make the server request its own network.
+ * @param webhook The webhook url.
+ */
+export async function isPublicWebhook(webhook: string): Promise<boolean> {
+	let hostname: string;
+	try {
+		// IPv6 hosts keep their brackets in the url
+		hostname = new URL(webhook).hostname.replace(/^\[(.*)\]$/, "$1");
+	} catch (error) {
+		return false;
+	}
+
+	if (net.isIP(hostname)) {
+		return !isPrivateAddress(hostname);
+	}
+
+	try {
+		const addresses = await dns.promises.lookup(hostname, { all: true });
+		return (
+			addresses.length > 0 &&
+			!addresses.some((entry) => isPrivateAddress(entry.address))
+		);
+	} catch (error) {
+		return false;
+	}
+}
+
+/**
+ * What a webhook in "explicit" mode must respond with, either
+ * `{ "accept": true }` optionally with a `reference` of their own, or
+ * `{ "accept": false, "code": "...", "message": "..." }` to decline.
+ */
+export interface WebhookDecision {
+	accept: boolean;
+	reference?: string;
+	code?: string;
+	message?: string;
+}
+
+export interface WebhookResult {
+	delivered: boolean;
+	deliveryId: ObjectId;
+	/** Only set for wallets in "explicit" mode */
+	decision?: WebhookDecision;
+	/** The delivery document, not yet logged */
+	delivery: any;
+}
+
+const decisionSchema = Joi.object({
+	accept: Joi.boolean().required(),
+	reference: Joi.when("accept", {
+		is: true,
+		then: Joi.string().trim().max(128),
+		otherwise: Joi.forbidden(),
+	}),
+	code: Joi.when("accept", {
+		is: false,
+		then: Joi.string()
+			.required()
+			.max(64)
+			.pattern(/^[a-zA-Z0-9_.-]+$/),
+		otherwise: Joi.forbidden(),
+	}),
+	message: Joi.when("accept", {
+		is: false,
+		then: Joi.string().required().trim().max(256),
+		otherwise: Joi.forbidden(),
+	}),
+}).unknown(true);
+
+/**
+ * Generates a new secret for signing a smart wallet's webhook deliveries.
+ */
+export function generateWebhookSecret(): string {
+	return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Signs a webhook body, receivers verify it by computing the HMAC-SHA256
+ * of `<timestamp>.<body>` with their secret and comparing.
+ * @param secret The wallet's webhook secret.
+ * @param timestamp The `Stelo-Timestamp` header, in ms.
+ * @param body The exact JSON string being sent.
+ */
+export function signWebhook(
+	secret: string,
+	timestamp: number,
+	body: string
+): string {
+	return createHmac("sha256", secret)
+		.update(`${timestamp}.${body}`)
+		.digest("hex");
+}
+
+/**
+ * Posts a payload to a webhook, signed with the wallet's secret if it has
+ * one. Wallets from before secrets existed get unsigned deliveries until
+ * they set their webhook or rotate their secret.
+ * @param webhook The webhook url.
+ * @param secret The wallet's webhook secret, if any.
+ * @param payload The body to send.
+ * @returns The axios response, throws if the request failed.
+ */
+export async function postWebhook(
+	webhook: string,
+	secret: string | undefined,
+	payload: any
+): Promise<AxiosResponse> {
+	const body = JSON.stringify(payload);
+	const timestamp = Date.now();
+
+	// Hosts that are addresses aren't looked up, so check them here
+	const hostname = new URL(webhook).hostname.replace(/^\[(.*)\]$/, "$1");
+	if (net.isIP(hostname) && isPrivateAddress(hostname)) {
+		throw new Error(`${hostname} is a private address`);
+	}
+
+	let headers: any = {
+		"Content-Type": "application/json",
+	};
+	if (secret) {
+		headers["Stelo-Timestamp"] = timestamp.toString();
+		headers["Stelo-Signature"] = `v1=${signWebhook(secret, timestamp, body)}`;
+	}
+
+	// Redirects aren't followed, they could lead anywhere
+	return await axios.post(webhook, body, {
+		headers,
+		timeout: 10000,
+		httpAgent,
+		httpsAgent,
+		maxRedirects: 0,
+	});
+}
+
+// Wait before each retry of a queued delivery, after
+// the last one it is marked as failed
+const retryDelays = [1, 5, 30, 120, 720].map((minutes) => minutes * 60 * 1000);
+
+// Stops a slow run overlapping the next one
+let delivering = false;
+
+/**
+ * Validates a webhook's response body against the decision schema.
+ * @param body The parsed response body.
+ * @returns The decision, or null if the body didn't match.
+ */
+function parseDecision(body: any): WebhookDecision | null {
+	const result = decisionSchema.validate(body);
+	if (result.error) {
+		return null;
+	}
+
+	let decision: WebhookDecision = { accept: result.value.accept };
+	if (decision.accept && result.value.reference) {
+		decision.reference = result.value.reference;
+	} else if (!decision.accept) {
+		decision.code = result.value.code;
+		decision.message = result.value.message;
+	}
+
+	return decision;
+}
+
+/**
+ * Posts a delivery to the wallet's current webhook. Deliveries in
+ * "explicit" mode only count as delivered with a valid decision.
+ * @param delivery The delivery document.
+ * @param wallet Wallet document with `webhook` and `webhookSecret` projected.
+ * @returns The attempt to log, and whether it was delivered.
+ */
+async function postDelivery(
+	delivery: any,
+	wallet: any | null
+): Promise<{ attempt: any; delivered: boolean }> {
+	const startedAt = Date.now();
+
+	let attempt: any = { at: startedAt };
+	let delivered = false;
+	if (!wallet?.webhook) {
+		attempt.error = "Wallet has no webhook";
+	} else {
+		attempt.webhook = wallet.webhook;
+		try {
+			const response = await postWebhook(
+				wallet.webhook,
+				wallet.webhookSecret,
+				{ event: delivery.event, ...delivery.payload }
+			);
+			attempt.statusCode = response.status;
+			if (delivery.mode === "explicit") {
+				const decision = parseDecision(response.data);
+				if (decision) {
+					attempt.decision = decision;
+					delivered = true;
+				} else {
+					attempt.error = "Response body isn't a valid decision";
+				}
+			} else {
+				delivered = true;
+			}
+		} catch (error: any) {
+			if (error.response) {
+				attempt.statusCode = error.response.status;
+			}
+			attempt.error = error.message;
+		}
+	}
+	attempt.durationMs = Date.now() - startedAt;
+
+	return { attempt, delivered };
+}
+
+/**
+ * Posts a delivery to the wallet's current webhook and records the attempt,
+ * scheduling a retry for queued deliveries that failed.
+ * @param delivery The delivery document.
+ * @param wallet Wallet document with `webhook` and `webhookSecret` projected.
+ * @returns The updated delivery document.
+ */
+async function postAndRecord(delivery: any, wallet: any | null): Promise<any> {
+	const deliveries: Collection = getMongoCollection("webhookDeliveries");
+
+	const { attempt, delivered } = await postDelivery(delivery, wallet);
+
+	// Keep the last 20 attempts
+	let update: any = {
+		$push: { attempts: { $each: [attempt], $slice: -20 } },
+		$inc: { attemptCount: 1 },
+	};
+	if (delivered) {
+		update.$set = { status: "delivered" };
+		if (attempt.decision) {
+			update.$set.decision = attempt.decision;
+		}
+		update.$unset = { nextAttemptAt: "" };
+	} else if (
+		delivery.mode === "async" &&
+		wallet?.webhook &&
+		delivery.attemptCount < retryDelays.length
+	) {
+		update.$set = {
+			status: "pending",
+			nextAttemptAt: Date.now() + retryDelays[delivery.attemptCount],
+		};
+	} else {
+		update.$set = { status: "failed" };
+		update.$unset = { nextAttemptAt: "" };
+	}
+
+	const result = await deliveries.findOneAndUpdate(
+		{ _id: delivery._id },
+		update,
+		{ returnDocument: "after" }
+	);
+	return result.value;
+}
+
+/**
+ * Claims a pending queued delivery and attempts it.
+ * @param deliveryId The id of the delivery.
+ * @returns The updated delivery, or null if it wasn't pending or is already being attempted.
+ */
+async function attemptDelivery(deliveryId: ObjectId): Promise<any | null> {
+	const deliveries: Collection = getMongoCollection("webhookDeliveries");
+	const wallets: Collection = getMongoCollection("wallets");
+	const now = Date.now();
+
+	// Push nextAttemptAt forward so nothing else attempts it meanwhile
+	const claimResult = await deliveries.findOneAndUpdate(
+		{ _id: deliveryId, status: "pending", nextAttemptAt: { $lte: now } },
+		{ $set: { nextAttemptAt: now + 1000 * 60 } },
+		{ returnDocument: "after" }
+	);
+	if (!claimResult.value) {
+		return null;
+	}
+
+	// Deleted wallets are delivered to the webhook they had
+	const wallet =
+		(await wallets.findOne(
+			{ _id: claimResult.value.walletId },
+			{ projection: { webhook: 1, webhookSecret: 1 } }
+		)) ?? claimResult.value.target;
+
+	return await postAndRecord(claimResult.value, wallet);
+}
+
+/**
+ * Posts to a wallet's webhook right away. Used by wallets in "blocking"
+ * mode, where any 2xx accepts the payment, and in "explicit" mode, where
+ * the response body has to accept or decline it. It must be called before
+ * the payment's mongo transaction, so a slow webhook can't hold it open,
+ * and the delivery is only logged once `logDelivery` is called with it.
+ * @param wallet Wallet document with `_id`, `webhook`, `webhookSecret` and `webhookMode` projected.
+ * @param event The kind of event, e.g. "payment".
+ * @param payload The body to send.
+ * @returns Whether it was delivered, the decision in "explicit" mode, and the delivery to log.
+ */
+export async function sendWebhookNow(
+	wallet: any,
+	event: string,
+	payload: any
+): Promise<WebhookResult> {
+	let delivery: any = {
+		_id: new ObjectId(),
+		walletId: wallet._id,
+		event,
+		mode: wallet.webhookMode === "explicit" ? "explicit" : "blocking",
+		payload,
+		createdAt: Date.now(),
+	};
+
+	const { attempt, delivered } = await postDelivery(delivery, wallet);
+	delivery.status = delivered ? "delivered" : "failed";
+	delivery.attempts = [attempt];
+	delivery.attemptCount = 1;
+	if (delivered && attempt.decision) {
+		delivery.decision = attempt.decision;
+	}
+
+	let webhookResult: WebhookResult = {
+		delivered,
+		deliveryId: delivery._id,
+		delivery,
+	};
+	if (delivery.decision) {
+		webhookResult.decision = delivery.decision;
+	}
+
+	return webhookResult;
+}
+
+/**
+ * Logs a delivery made by `sendWebhookNow`. Accepted payments log it in
+ * their own mongo transaction, so it's only kept if the payment is.
+ * @param delivery The delivery document.
+ * @param session The mongo session of the payment, if there is one.
+ */
+export async function logDelivery(
+	delivery: any,
+	session?: ClientSession
+): Promise<void> {
+	const deliveries: Collection = getMongoCollection("webhookDeliveries");
+
+	await deliveries.insertOne({ ...delivery }, { session });
+}
+
+/**
+ * Queues a delivery to a wallet's webhook and makes the first attempt in
+ * the background, failed attempts are retried with backoff. Used by
+ * wallets in "async" mode, after the transaction has committed.
+ * @param walletId The wallet to deliver to.
+ * @param event The kind of event, e.g. "payment".
+ * @param payload The body to send.
+ * @param target The `webhook` and `webhookSecret` to use if the wallet no longer exists.
+ */
+export async function enqueueWebhook(
+	walletId: ObjectId,
+	event: string,
+	payload: any,
+	target?: { webhook: string; webhookSecret?: string }
+): Promise<void> {
+	const deliveries: Collection = getMongoCollection("webhookDeliveries");
+
+	let delivery: any = {
+		_id: new ObjectId(),
+		walletId,
+		event,
+		mode: "async",
+		status: "pending",
+		payload,
+		attempts: [],
+		attemptCount: 0,
+		nextAttemptAt: Date.now(),
+		createdAt: Date.now(),
+	};
+	if (target) {
+		delivery.target = {
+			webhook: target.webhook,
+			webhookSecret: target.webhookSecret,
+		};
+	}
+	await deliveries.insertOne(delivery);
+
+	attemptDelivery(delivery._id).catch((error) => console.error(error));
+}
+
+/**
+ * Whether a wallet's webhook should receive an event.
+ * @param wallet Wallet document with `webhook` and `webhookEvents` projected.
+ * @param event The kind of event.
+ */
+export function isSubscribed(wallet: any, event: string): boolean {
+	return (
+		!!wallet?.webhook &&
+		(wallet.webhookEvents ?? defaultWebhookEvents).includes(event)
+	);
+}
+
+/**
+ * Queues an event for a wallet's webhook, if it has one and is
+ * subscribed to the event. Must be called after any transaction
+ * it's about has committed.
+ * @param walletId The wallet the event is about.
+ * @param event The kind of event, e.g. "key.rotated".
+ * @param payload The body to send.
+ * @param deletedWallet The wallet document, when it has just been deleted.
+ */
+export async function notifyWebhook(
+	walletId: ObjectId | string,
+	event: string,
+	payload: any,
+	deletedWallet?: any
+): Promise<void> {
+	const wallets: Collection = getMongoCollection("wallets");
+
+	const wallet =
+		deletedWallet ??
+		(await wallets.findOne(
+			{ _id: new ObjectId(walletId) },
+			{ projection: { webhook: 1, webhookEvents: 1 } }
+		));
+	if (!isSubscribed(wallet, event)) {
+		return;
+	}
+
+	await enqueueWebhook(new ObjectId(walletId), event, payload, deletedWallet);
+}
+
+/**
+ * Attempts every queued delivery that is due a retry.
+ */
+export async function deliverPendingWebhooks(): Promise<void> {
+	if (delivering) {
+		return;
+	}
+	delivering = true;
+
+	try {
+		const deliveries: Collection = getMongoCollection("webhookDeliveries");
+
+		const dueDeliveries = await deliveries
+			.find(
+				{ status: "pending", nextAttemptAt: { $lte: Date.now() } },
+				{ projection: { _id: 1 } }
+			)
+			.limit(100)
+			.toArray();
+
+		for (const delivery of dueDeliveries) {
+			await attemptDelivery(delivery._id);
+		}
+	} finally {
+		delivering = false;
+	}
+}
+
+/**
+ * Puts a queued delivery back in the queue and attempts it right away.
+ * Blocking and explicit deliveries can't be redelivered, as they
+ * decided the payment.
+ * @param deliveryId The id of the delivery.
+ * @param walletId The wallet the delivery belongs to.
+ * @returns The updated delivery, or null if not found.
+ */
+export async function redeliverWebhook(
+	deliveryId: string,
+	walletId: string
+): Promise<any | null> {
+	const deliveries: Collection = getMongoCollection("webhookDeliveries");
+
+	const result = await deliveries.findOneAndUpdate(
+		{
+			_id: new ObjectId(deliveryId),
+			walletId: new ObjectId(walletId),
+			mode: "async",
+		},
+		{
+			$set: {
+				status: "pending",
+				attemptCount: 0,
+				nextAttemptAt: Date.now(),
+			},
+		}
+	);
+	if (!result.value) {
+		return null;
+	}
+
+	// If it's already being attempted just return it as is
+	return (
+		(await attemptDelivery(result.value._id)) ??
+		(await deliveries.findOne({ _id: result.value._id }))
+	);
+}
+
+export interface WebhookPing {
+	delivered: boolean;
+	/** Not set if there was no response */
+	statusCode?: number;
+	durationMs: number;
+	/** Only set if it wasn't delivered */
+	reason?: string;
+}
+
+/**
+ * Posts a clearly marked sample payload to a webhook, to check it works
+ * without moving any assets. Isn't logged as a delivery.
+ * @param webhook The webhook url.
+ * @param secret The secret to sign it with, unsigned if not given.
+ * @param address The address of the wallet it is for.
+ * @param mode The wallet's webhook mode, "explicit" also needs the response to be a valid decision.
+ * @returns Whether it was delivered, with the status code and latency, or why not.
+ */
+export async function pingWebhook(
+	webhook: string,
+	secret: string | undefined,
+	address: string,
+	mode?: string
+): Promise<WebhookPing> {
+	const startedAt = Date.now();
+
+	let ping: WebhookPing = { delivered: false, durationMs: 0 };
+	try {
+		const response = await postWebhook(webhook, secret, {
+			event: "test",
+			test: true,
+			address,
+			message: "This is a test delivery, no assets have moved",
+			sentAt: startedAt,
+		});
+		ping.statusCode = response.status;
+		if (mode !== "explicit" || parseDecision(response.data)) {
+			ping.delivered = true;
+		} else {
+			ping.reason = "Response body isn't a valid decision";
+		}
+	} catch (error: any) {
+		if (error.response) {
+			ping.statusCode = error.response.status;
+			ping.reason = `Webhook responded with status ${error.response.status}`;
+		} else if (error.code === "ECONNABORTED") {
+			ping.reason = "Webhook didn't respond in time";
+		} else {
+			ping.reason = error.message;
+		}
+	}
+	ping.durationMs = Date.now() - startedAt;
+
+	return ping;
+}
+
+/**
+ * Turns a delivery document into what is returned to the wallet.
+ * @param delivery The delivery document.
+ */
+export function toDeliveryResponse(delivery: any): any {
+	let response: any = {
+		id: (delivery._id as ObjectId).toString(),
+		event: delivery.event,
+		mode: delivery.mode,
+		status: delivery.status,
+		payload: delivery.payload,
+		attempts: delivery.attempts,
+		createdAt: delivery.createdAt,
+	};
+	if (delivery.decision) {
+		response.decision = delivery.decision;
+	}
+	if (delivery.nextAttemptAt) {
+		response.nextAttemptAt = delivery.nextAttemptAt;
+	}
+
+	return response;
+}